@@ -0,0 +1,286 @@
+import { act, renderHook } from '@testing-library/react-native';
+import base64js from 'base64-js';
+import { decodeAudioFrame, encodeAudioFrame, type ClientMessage, type ServerMessage } from '@shared/protocol';
+import { bytesToPcm16, pcm16ToFloat32 } from '@shared/pcm';
+import { useAudioConnection } from '@/hooks/useAudioConnection';
+
+// Native modules are replaced with fakes that record what the hook does
+
+const mockAudio = {
+  sources: [] as { enqueued: Float32Array[]; started: boolean }[],
+  micListener: null as ((event: { encoded?: string }) => void) | null,
+  startRecording: jest.fn(async () => {}),
+  stopRecording: jest.fn(async () => {}),
+};
+
+jest.mock('react-native-audio-api', () => ({
+  AudioContext: class {
+    state = 'running';
+    destination = {};
+    createAnalyser() {
+      return { fftSize: 0, connect() {}, getFloatTimeDomainData(samples: Float32Array) { samples.fill(0); } };
+    }
+    createBufferQueueSource() {
+      const source = {
+        enqueued: [] as Float32Array[],
+        started: false,
+        onEnded: null,
+        connect() {},
+        disconnect() {},
+        start() { source.started = true; },
+        stop() {},
+        enqueueBuffer(buffer: { data: Float32Array }) { source.enqueued.push(buffer.data); },
+      };
+      mockAudio.sources.push(source);
+      return source;
+    }
+    createBuffer(_channels: number, length: number) {
+      const buffer = { data: new Float32Array(length), copyToChannel: (data: Float32Array) => buffer.data.set(data) };
+      return buffer;
+    }
+    async resume() {}
+    async close() {}
+  },
+}));
+
+jest.mock('@siteed/expo-audio-studio', () => ({
+  ExpoAudioStreamModule: { requestPermissionsAsync: async () => ({ granted: true }) },
+  useAudioRecorder: () => ({ startRecording: mockAudio.startRecording, stopRecording: mockAudio.stopRecording }),
+}));
+
+jest.mock('expo-modules-core', () => ({
+  LegacyEventEmitter: class {
+    addListener(_event: string, listener: (event: { encoded?: string }) => void) {
+      mockAudio.micListener = listener;
+      return { remove: () => { mockAudio.micListener = null; } };
+    }
+  },
+}));
+
+/** In-memory WebSocket; the test plays the server's side. */
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  binaryType = 'blob';
+  sent: (string | ArrayBuffer)[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(payload: string | ArrayBuffer) {
+    this.sent.push(payload);
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  get messages(): ClientMessage[] {
+    return this.sent.filter((payload): payload is string => typeof payload === 'string').map((payload) => JSON.parse(payload));
+  }
+
+  get frames() {
+    return this.sent.filter((payload): payload is ArrayBuffer => payload instanceof ArrayBuffer).map(decodeAudioFrame);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: ServerMessage | ArrayBuffer) {
+    this.onmessage?.({ data: message instanceof ArrayBuffer ? message : JSON.stringify(message) });
+  }
+}
+
+// 200ms of a 24kHz ramp, so every sample is distinct
+const coachPcm = () => new Uint8Array(Int16Array.from({ length: 4800 }, (_, i) => (i * 13) % 65536 - 32768).buffer);
+
+async function connectHook(props: Parameters<typeof useAudioConnection>[0] = {}) {
+  const hook = renderHook(() => useAudioConnection({ backendUrl: 'ws://coach.test/ws', ...props }));
+  await act(async () => {
+    await hook.result.current.connect();
+  });
+  const socket = FakeWebSocket.instances.at(-1)!;
+  await act(async () => {
+    socket.open();
+  });
+  await act(async () => {
+    socket.receive({ type: 'connected', message: 'ready', protocol_version: 5, binary_audio: true });
+  });
+  return { ...hook, socket };
+}
+
+beforeEach(() => {
+  FakeWebSocket.instances = [];
+  mockAudio.sources = [];
+  mockAudio.startRecording.mockClear();
+  mockAudio.stopRecording.mockClear();
+  (global as unknown as { WebSocket: unknown }).WebSocket = FakeWebSocket;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useAudioConnection', () => {
+  it('starts a session on the configured backend', async () => {
+    const { result, socket, unmount } = await connectHook();
+
+    expect(socket.url).toBe('ws://coach.test/ws');
+    expect(socket.messages[0]).toEqual({ type: 'start_session', scenario: null, resume_handle: null, binary_audio: true });
+    expect(mockAudio.startRecording).toHaveBeenCalledWith(expect.objectContaining({ sampleRate: 16000, encoding: 'pcm_16bit' }));
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.phase).toBe('streaming');
+    unmount();
+  });
+
+  it('sends microphone audio as binary frames', async () => {
+    const { socket, unmount } = await connectHook();
+    const mic = new Uint8Array(Int16Array.from({ length: 1600 }, (_, i) => i - 800).buffer);
+
+    await act(async () => {
+      mockAudio.micListener?.({ encoded: base64js.fromByteArray(mic) });
+    });
+
+    const [frame] = socket.frames;
+    expect(frame.type).toBe('audio_chunk');
+    expect(frame.sampleRate).toBe(16000);
+    expect(frame.pcm).toEqual(mic);
+    unmount();
+  });
+
+  it('holds mic audio back in push-to-talk until the user talks', async () => {
+    const { result, socket, unmount } = await connectHook({ pushToTalk: true });
+    const mic = base64js.fromByteArray(new Uint8Array(3200));
+
+    await act(async () => {
+      mockAudio.micListener?.({ encoded: mic });
+    });
+    expect(socket.frames).toHaveLength(0);
+
+    await act(async () => {
+      result.current.startTalking();
+    });
+    await act(async () => {
+      mockAudio.micListener?.({ encoded: mic });
+      result.current.stopTalking();
+    });
+    expect(socket.frames).toHaveLength(1);
+    expect(socket.messages.at(-1)).toEqual({ type: 'end_of_turn' });
+    unmount();
+  });
+
+  it('plays the coach audio back sample for sample', async () => {
+    const { result, socket, unmount } = await connectHook();
+    const pcm = coachPcm();
+
+    await act(async () => {
+      socket.receive(encodeAudioFrame('audio_response', pcm.subarray(0, 4800), 24000));
+      socket.receive({ type: 'audio_response', data: base64js.fromByteArray(pcm.subarray(4800)) });
+    });
+    expect(result.current.isSpeaking).toBe(true);
+
+    await act(async () => {
+      socket.receive({ type: 'turn_complete' });
+    });
+    // Still speaking until the queued audio has been heard
+    expect(result.current.isSpeaking).toBe(true);
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    });
+    expect(result.current.isSpeaking).toBe(false);
+
+    const played = mockAudio.sources.flatMap((source) => source.enqueued);
+    const samples = new Float32Array(played.reduce((total, buffer) => total + buffer.length, 0));
+    played.reduce((offset, buffer) => {
+      samples.set(buffer, offset);
+      return offset + buffer.length;
+    }, 0);
+    expect(samples).toEqual(pcm16ToFloat32(bytesToPcm16(pcm)));
+    expect(mockAudio.sources[0].started).toBe(true);
+    unmount();
+  });
+
+  it('turns tool calls into cues', async () => {
+    const onCue = jest.fn();
+    const { result, socket, unmount } = await connectHook({ onCue });
+
+    await act(async () => {
+      socket.receive({ type: 'tool_call', tool: 'suggest_mirroring', args: { phrase: 'a fair price?' } });
+    });
+
+    expect(result.current.cues).toHaveLength(1);
+    expect(result.current.cues[0].tool).toBe('suggest_mirroring');
+    expect(onCue).toHaveBeenCalledWith(result.current.cues[0]);
+    unmount();
+  });
+
+  it('reads spoken cues and pairs them with tool calls', async () => {
+    const { result, socket, unmount } = await connectHook();
+
+    await act(async () => {
+      socket.receive({ type: 'transcription', text: 'Mirror,' });
+      socket.receive({ type: 'transcription', text: ' fair price?' });
+      socket.receive({ type: 'tool_call', tool: 'suggest_mirroring', args: { phrase: 'fair price?' } });
+    });
+
+    expect(result.current.spokenCues).toEqual([
+      expect.objectContaining({ technique: 'suggest_mirroring', phrase: 'fair price?', toolCueId: result.current.cues[0].id }),
+    ]);
+    unmount();
+  });
+
+  it('builds the transcript from transcriptions and typed messages', async () => {
+    const { result, socket, unmount } = await connectHook();
+
+    await act(async () => {
+      socket.receive({ type: 'transcription', text: 'Label' });
+      socket.receive({ type: 'transcription', text: ' it.' });
+      socket.receive({ type: 'turn_complete' });
+    });
+    await act(async () => {
+      result.current.sendTextMessage('What now?');
+    });
+
+    expect(socket.messages.at(-1)).toEqual({ type: 'text_message', text: 'What now?' });
+    expect(result.current.turns.map((turn) => [turn.role, turn.text])).toEqual([
+      ['coach', 'Label it.'],
+      ['user', 'What now?'],
+    ]);
+    unmount();
+  });
+
+  it('asks for a summary and closes the socket on disconnect', async () => {
+    const onSessionEnd = jest.fn();
+    const { result, socket, unmount } = await connectHook({ onSessionEnd });
+
+    let debrief: Promise<unknown> = Promise.resolve(null);
+    await act(async () => {
+      debrief = result.current.disconnect();
+    });
+    expect(socket.messages.at(-1)).toEqual({ type: 'request_summary' });
+
+    await act(async () => {
+      socket.receive({ type: 'tool_call', tool: 'summarize_negotiation', args: { final_terms: 'Agreed on 5%' } });
+      await debrief;
+    });
+
+    expect(await debrief).toEqual(expect.objectContaining({ finalTerms: 'Agreed on 5%', summaryAvailable: true }));
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(onSessionEnd).toHaveBeenCalledTimes(1);
+    expect(result.current.isConnected).toBe(false);
+    unmount();
+  });
+});
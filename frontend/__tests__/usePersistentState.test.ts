@@ -0,0 +1,64 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { usePersistentState } from '@/hooks/usePersistentState';
+
+// An in-memory document directory whose reads finish when the test says so
+
+const mockFiles = {
+  contents: new Map<string, string>(),
+  pendingReads: [] as (() => void)[],
+};
+
+jest.mock('expo-file-system', () => ({
+  Paths: { document: 'documents' },
+  File: class {
+    name: string;
+    constructor(_dir: string, filename: string) {
+      this.name = filename;
+    }
+    get exists() {
+      return mockFiles.contents.has(this.name);
+    }
+    create() {
+      mockFiles.contents.set(this.name, '');
+    }
+    write(text: string) {
+      mockFiles.contents.set(this.name, text);
+    }
+    text() {
+      const text = mockFiles.contents.get(this.name)!;
+      return new Promise<string>((resolve) => mockFiles.pendingReads.push(() => resolve(text)));
+    }
+  },
+}));
+
+const finishReads = async () => {
+  await act(async () => {
+    mockFiles.pendingReads.splice(0).forEach((finish) => finish());
+  });
+};
+
+beforeEach(() => {
+  mockFiles.contents = new Map([['settings.json', JSON.stringify({ volume: 1 })]]);
+  mockFiles.pendingReads = [];
+});
+
+describe('usePersistentState', () => {
+  it('loads the stored value', async () => {
+    const { result } = renderHook(() => usePersistentState('settings.json', { volume: 0 }));
+    expect(result.current[2]).toBe(false);
+
+    await finishReads();
+    expect(result.current[0]).toEqual({ volume: 1 });
+    expect(result.current[2]).toBe(true);
+  });
+
+  it('keeps an update made before the stored value has loaded', async () => {
+    const { result } = renderHook(() => usePersistentState('settings.json', { volume: 0 }));
+    act(() => result.current[1]({ volume: 5 }));
+
+    await finishReads();
+    expect(result.current[0]).toEqual({ volume: 5 });
+    expect(result.current[2]).toBe(true);
+    expect(mockFiles.contents.get('settings.json')).toBe(JSON.stringify({ volume: 5 }));
+  });
+});
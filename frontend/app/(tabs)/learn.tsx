@@ -0,0 +1,76 @@
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { Collapsible } from '@/components/ui/collapsible';
+import { TechniqueDrill } from '@/components/TechniqueDrill';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { DRILLS, GLOSSARY } from '@/constants/techniques';
+import { techniqueInfo } from '@shared/cues';
+
+export default function LearnScreen() {
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="title">Techniques</ThemedText>
+        <ThemedText style={styles.muted}>
+          The coach whispers one short cue at a time: the technique, a comma, then what to say. &quot;Mirror, fair
+          price?&quot; means repeat &quot;fair price?&quot; back to the counterpart.
+        </ThemedText>
+
+        <ThemedText type="subtitle" style={styles.section}>Glossary</ThemedText>
+        {GLOSSARY.map((entry) => {
+          const info = techniqueInfo(entry.tool);
+          return (
+            <Collapsible key={entry.tool} title={`${entry.title} (${info.label})`}>
+              <View style={styles.entry}>
+                <ThemedText>{entry.summary}</ThemedText>
+                <ThemedText>
+                  <ThemedText type="defaultSemiBold">When: </ThemedText>
+                  {entry.whenToUse}
+                </ThemedText>
+                <ThemedText type="defaultSemiBold">The coach says</ThemedText>
+                {entry.cues.map((cue) => (
+                  <ThemedText key={cue} style={[styles.cue, { borderLeftColor: info.color }]}>
+                    {cue}
+                  </ThemedText>
+                ))}
+              </View>
+            </Collapsible>
+          );
+        })}
+
+        <ThemedText type="subtitle" style={styles.section}>Drills</ThemedText>
+        <ThemedText style={styles.muted}>The counterpart says... which technique would the coach suggest?</ThemedText>
+        {DRILLS.map((drill, index) => (
+          <TechniqueDrill key={drill.prompt} drill={drill} index={index} />
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 10,
+  },
+  section: {
+    marginTop: 16,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  entry: {
+    gap: 6,
+    marginBottom: 8,
+  },
+  cue: {
+    fontStyle: 'italic',
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+  },
+});
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useBackendUrl } from '@/hooks/useBackendUrl';
+import { checkHealth, normalizeBackendUrl, type HealthStatus } from '@shared/backend';
+
+type TestResult = { state: 'testing' } | { state: 'ok'; health: HealthStatus } | { state: 'error'; message: string };
+
+export default function SettingsScreen() {
+  const { backendUrl, setBackendUrl, isLoaded, defaultUrl } = useBackendUrl();
+  const [draft, setDraft] = useState(backendUrl);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<TestResult | null>(null);
+
+  // Show the stored address once it has been read (and after it changes elsewhere)
+  useEffect(() => {
+    if (isLoaded) setDraft(backendUrl);
+  }, [backendUrl, isLoaded]);
+
+  const normalizedDraft = () => {
+    const url = normalizeBackendUrl(draft);
+    setError(url ? null : 'Enter an address like 192.168.1.20:8000 or ws://192.168.1.20:8000/ws');
+    return url;
+  };
+
+  const save = () => {
+    const url = normalizedDraft();
+    if (!url) return;
+    setBackendUrl(url);
+    setDraft(url);
+  };
+
+  const resetToDefault = () => {
+    setBackendUrl(defaultUrl);
+    setDraft(defaultUrl);
+    setError(null);
+    setResult(null);
+  };
+
+  const testConnection = async () => {
+    const url = normalizedDraft();
+    if (!url) return;
+    setResult({ state: 'testing' });
+    try {
+      setResult({ state: 'ok', health: await checkHealth(url) });
+    } catch (e) {
+      setResult({ state: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const isDirty = normalizeBackendUrl(draft) !== backendUrl;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <ThemedText type="title">Settings</ThemedText>
+
+        <ThemedText type="subtitle" style={styles.section}>Server</ThemedText>
+        <ThemedText style={styles.muted}>
+          Address of the coach backend. On a physical device, use your computer&apos;s IP address on the same WiFi
+          network. Changes apply to the next connection.
+        </ThemedText>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={(text) => {
+            setDraft(text);
+            setResult(null);
+          }}
+          onSubmitEditing={save}
+          placeholder={defaultUrl}
+          placeholderTextColor="rgba(255, 255, 255, 0.4)"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+        <View style={styles.buttons}>
+          <TouchableOpacity style={[styles.button, styles.primary, !isDirty && styles.disabled]} onPress={save} disabled={!isDirty}>
+            <ThemedText type="defaultSemiBold">Save</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={testConnection} disabled={result?.state === 'testing'}>
+            <ThemedText type="defaultSemiBold">Test connection</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={resetToDefault}>
+            <ThemedText>Reset</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {result?.state === 'testing' && <ActivityIndicator style={styles.result} />}
+        {result?.state === 'ok' && (
+          <View style={styles.result}>
+            <ThemedText style={styles.success}>Server is {result.health.status}</ThemedText>
+            <ThemedText style={result.health.api_key_configured ? styles.success : styles.error}>
+              {result.health.api_key_configured
+                ? 'Gemini API key is configured'
+                : 'Gemini API key is missing - set GOOGLE_API_KEY on the server'}
+            </ThemedText>
+          </View>
+        )}
+        {result?.state === 'error' && <ThemedText style={[styles.error, styles.result]}>{result.message}</ThemedText>}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 10,
+  },
+  section: {
+    marginTop: 16,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  input: {
+    color: '#fff',
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#404040', // neutral-700
+    backgroundColor: '#18181B', // zinc-900
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 6,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#404040', // neutral-700
+  },
+  primary: {
+    backgroundColor: '#2563EB', // blue-600
+    borderColor: '#2563EB',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  result: {
+    marginTop: 10,
+  },
+  success: {
+    color: '#34D399', // emerald-400
+  },
+  error: {
+    color: '#F87171', // red-400
+  },
+});
@@ -24,7 +24,9 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Debrief' }} />
+        <Stack.Screen name="history/index" options={{ title: 'History' }} />
+        <Stack.Screen name="history/[id]" options={{ title: 'Session' }} />
       </Stack>
       <StatusBar style="light" />
     </ThemeProvider>
@@ -0,0 +1,226 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Platform, ScrollView, Share, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { AudioContext } from 'react-native-audio-api';
+import { Pause, Play, RotateCcw } from 'lucide-react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { exportSessionRecording, loadSessionAudio, useSessionHistory } from '@/hooks/useSessionHistory';
+import { useReplay } from '@/hooks/useReplay';
+import { formatDuration } from '@shared/debrief';
+import { formatCueArgs, techniqueInfo } from '@shared/cues';
+import { RECORDING_CHANNELS, RECORDING_SAMPLE_RATE, renderTrack } from '@shared/recording';
+import { roleLabel } from '@shared/transcript';
+import { scenarioTitle } from '@shared/scenarios';
+import {
+  buildTimeline,
+  eventsUntil,
+  sessionDuration,
+  type AudioChunkRecord,
+} from '@shared/sessions';
+
+// Replay seeks in fixed steps; there is no slider in React Native core
+const SEEK_STEP_MS = 10000;
+
+export default function SessionReplayScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { sessions, isLoaded } = useSessionHistory();
+  const session = sessions.find((s) => s.id === id);
+
+  const timeline = useMemo(() => (session ? buildTimeline(session) : []), [session]);
+  const durationMs = session ? sessionDuration(session) : 0;
+  const audioRef = useRef<AudioChunkRecord[] | null>(null);
+  // Each track laid out as in the WAV export, so replay and export agree
+  const tracksRef = useRef<Float32Array[] | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const [hasAudio, setHasAudio] = useState(false);
+
+  useEffect(() => {
+    if (!session?.hasAudio) return;
+    loadSessionAudio(session.id)
+      .then((audio) => {
+        audioRef.current = audio;
+        tracksRef.current = audio?.length ? RECORDING_CHANNELS.map((track) => renderTrack(session, audio, track)) : null;
+        setHasAudio(!!audio?.length);
+      })
+      .catch((e) => console.warn('[History] Error loading audio:', e));
+  }, [session]);
+
+  const stopAudio = useCallback(() => {
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  // Plays each rendered track from `positionMs` on a fresh AudioContext
+  const startAudio = useCallback((positionMs: number) => {
+    stopAudio();
+    const tracks = tracksRef.current;
+    if (!tracks) return;
+
+    const context = new AudioContext();
+    contextRef.current = context;
+    const from = Math.round((positionMs / 1000) * RECORDING_SAMPLE_RATE);
+    for (const samples of tracks) {
+      if (from >= samples.length) continue;
+      const remaining = samples.slice(from);
+      const buffer = context.createBuffer(1, remaining.length, RECORDING_SAMPLE_RATE);
+      buffer.copyToChannel(remaining, 0);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.start();
+    }
+  }, [stopAudio]);
+
+  const { positionMs, isPlaying, play, pause, seek } = useReplay(durationMs, startAudio, stopAudio);
+
+  useEffect(() => stopAudio, [stopAudio]);
+
+  // iOS shares the WAV itself; Android's share sheet only takes text, so it gets the file paths
+  const exportRecording = async () => {
+    if (!session || !audioRef.current) return;
+    try {
+      const [wav, ...sidecars] = exportSessionRecording(session, audioRef.current);
+      if (Platform.OS === 'ios') {
+        await Share.share({ url: wav.uri });
+      } else {
+        await Share.share({ message: [wav, ...sidecars].map((file) => file.uri).join('\n') });
+      }
+    } catch (e) {
+      console.warn('[History] Error exporting recording:', e);
+    }
+  };
+
+  if (!session) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ThemedText style={styles.muted}>{isLoaded ? 'Session not found' : 'Loading...'}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const visible = eventsUntil(timeline, positionMs);
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="subtitle">{scenarioTitle(session.scenario)}</ThemedText>
+        <ThemedText style={styles.muted}>
+          {new Date(session.startedAt).toLocaleString()} · {session.turns.length} turns · {session.cues.length} cues
+        </ThemedText>
+        {session.debriefId && (
+          <TouchableOpacity onPress={() => router.push({ pathname: '/modal', params: { id: session.debriefId! } })}>
+            <ThemedText type="link">Open debrief</ThemedText>
+          </TouchableOpacity>
+        )}
+        {hasAudio && (
+          <TouchableOpacity onPress={exportRecording}>
+            <ThemedText type="link">Export recording (WAV + transcript)</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.controls}>
+          <TouchableOpacity onPress={() => seek(positionMs - SEEK_STEP_MS)}>
+            <RotateCcw color="white" size={20} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.playButton} onPress={() => (isPlaying ? pause() : play())}>
+            {isPlaying ? <Pause color="white" size={20} /> : <Play color="white" size={20} />}
+          </TouchableOpacity>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${durationMs ? (positionMs / durationMs) * 100 : 0}%` }]} />
+          </View>
+          <ThemedText style={styles.time}>
+            {formatDuration(positionMs)} / {formatDuration(durationMs)}
+          </ThemedText>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.timeline}>
+        {visible.length === 0 && <ThemedText style={styles.muted}>Press play to replay the session timeline</ThemedText>}
+        {visible.map((event) => {
+          if (event.kind === 'turn') {
+            return (
+              <ThemedText key={`turn-${event.turn.id}`}>
+                <ThemedText style={styles.time}>{formatDuration(event.at)} </ThemedText>
+                <ThemedText type="defaultSemiBold" style={styles.coach}>{roleLabel(event.turn.role)}: </ThemedText>
+                {event.turn.text}
+              </ThemedText>
+            );
+          }
+          const info = techniqueInfo(event.cue.tool);
+          return (
+            <View key={`cue-${event.cue.id}`} style={[styles.cue, { borderColor: info.color }]}>
+              <ThemedText>
+                <ThemedText style={styles.time}>{formatDuration(event.at)} </ThemedText>
+                <ThemedText type="defaultSemiBold" style={{ color: info.color }}>{info.label}</ThemedText>
+              </ThemedText>
+              {formatCueArgs(event.cue.args).map((line) => (
+                <ThemedText key={line} style={styles.muted}>{line}</ThemedText>
+              ))}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    padding: 20,
+    gap: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#262626',
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  playButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 20,
+    padding: 8,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#3F3F46', // zinc-700
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#60A5FA', // blue-400
+  },
+  time: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+  timeline: {
+    padding: 20,
+    gap: 10,
+  },
+  coach: {
+    color: '#60A5FA',
+  },
+  cue: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+});
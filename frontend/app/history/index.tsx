@@ -0,0 +1,72 @@
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback } from 'react';
+import { Alert, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useSessionHistory } from '@/hooks/useSessionHistory';
+import { formatDuration } from '@shared/debrief';
+import { scenarioTitle } from '@shared/scenarios';
+import { sessionDuration } from '@shared/sessions';
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const { sessions, isLoaded, removeSession, refresh } = useSessionHistory();
+
+  // Pick up sessions saved while this screen was in the background
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const confirmDelete = (id: string) => {
+    Alert.alert('Delete session?', 'The transcript, cues and audio of this session will be removed.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => removeSession(id) },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={sessions}
+        keyExtractor={(session) => session.id}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          isLoaded ? <ThemedText style={styles.muted}>No sessions yet. Connect to start one.</ThemedText> : null
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.item}
+            onPress={() => router.push({ pathname: '/history/[id]', params: { id: item.id } })}
+            onLongPress={() => confirmDelete(item.id)}
+          >
+            <ThemedText type="defaultSemiBold">{scenarioTitle(item.scenario)}</ThemedText>
+            <ThemedText style={styles.muted}>
+              {new Date(item.startedAt).toLocaleString()} · {formatDuration(sessionDuration(item))} ·{' '}
+              {item.cues.length} cues
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  item: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#262626',
+  },
+});
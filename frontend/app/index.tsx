@@ -1,11 +1,84 @@
-import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView } from 'react-native';
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, Switch, Share, KeyboardAvoidingView, Platform } from 'react-native';
 import { OrbComponent } from '@/components/OrbComponent';
+import { CueFeed } from '@/components/CueFeed';
+import { SpokenCueCard } from '@/components/SpokenCueCard';
+import { Transcript } from '@/components/Transcript';
+import { ScenarioPicker } from '@/components/ScenarioPicker';
+import { DiagnosticsOverlay } from '@/components/DiagnosticsOverlay';
+import { HapticSettings } from '@/components/HapticSettings';
+import { TurnControls } from '@/components/TurnControls';
+import { TextChatPanel } from '@/components/TextChatPanel';
+import { useScenarios } from '@/hooks/useScenarios';
+import { useDebriefs } from '@/hooks/useDebriefs';
+import { useSessionHistory } from '@/hooks/useSessionHistory';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useHapticCues } from '@/hooks/useHapticCues';
+import { useBackendUrl } from '@/hooks/useBackendUrl';
+import { useRouter } from 'expo-router';
 import { useAudioConnection } from '@/hooks/useAudioConnection';
 import { Mic, MicOff } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { scenarioTitle } from '@shared/scenarios';
 
 export default function HomeScreen() {
-    const { isConnected, status, isSpeaking, connect, disconnect } = useAudioConnection();
+    const { scenarios, selected: scenario, select: selectScenario, addScenario, removeScenario } = useScenarios();
+    const { debriefs, saveDebrief } = useDebriefs();
+    const router = useRouter();
+    const { sessions, saveSession } = useSessionHistory();
+    const [saveAudio, setSaveAudio] = usePersistentState('save-session-audio.json', false);
+    const [showDiagnostics, setShowDiagnostics] = usePersistentState('show-diagnostics.json', false);
+    const haptics = useHapticCues();
+    const { backendUrl } = useBackendUrl();
+    const [showHaptics, setShowHaptics] = useState(false);
+    const [pushToTalk, setPushToTalk] = usePersistentState('push-to-talk.json', false);
+    const {
+        phase,
+        error,
+        isConnected,
+        isReconnecting,
+        isEnding,
+        isTalking,
+        status,
+        isSpeaking,
+        audioLevel,
+        cues,
+        spokenCues,
+        turns,
+        diagnostics,
+        exportDiagnostics,
+        connect,
+        disconnect,
+        startTalking,
+        stopTalking,
+        askCoach,
+        sendTextMessage,
+    } = useAudioConnection({
+        backendUrl,
+        scenario,
+        saveAudio,
+        onSessionEnd: saveSession,
+        onCue: (cue) => haptics.playCue(cue.tool),
+        muteCoachAudio: haptics.settings.enabled && haptics.settings.muteAudio,
+        pushToTalk,
+    });
+    const isActive = isConnected || isReconnecting;
+
+    const shareDiagnostics = async () => {
+        try {
+            await Share.share({ message: JSON.stringify(exportDiagnostics(), null, 2) });
+        } catch (e) {
+            console.warn('Error sharing diagnostics:', e);
+        }
+    };
+
+    const endSession = async () => {
+        const debrief = await disconnect();
+        if (debrief) {
+            saveDebrief(debrief);
+            router.push({ pathname: '/modal', params: { id: debrief.id } });
+        }
+    };
 
     return (
         <SafeAreaView style={styles.container}>
@@ -14,36 +87,129 @@ export default function HomeScreen() {
                 style={styles.headerGradient}
             >
                 <View style={styles.header}>
-                    <Text style={styles.title}>Gemini Live</Text>
+                    <Text style={styles.title}>{scenarioTitle(scenario)}</Text>
                 </View>
             </LinearGradient>
 
+            <View style={styles.scenarios}>
+                <ScenarioPicker
+                    scenarios={scenarios}
+                    selected={scenario}
+                    disabled={isActive}
+                    onSelect={selectScenario}
+                    onCreate={addScenario}
+                    onDelete={removeScenario}
+                />
+            </View>
+
             <View style={styles.content}>
                 <View style={styles.orbContainer}>
-                    <OrbComponent isActive={isSpeaking} volume={isSpeaking ? 0.5 : 0} />
+                    <OrbComponent isActive={isSpeaking} volume={audioLevel} />
+                </View>
+
+                <View style={styles.statusRow}>
+                    {isReconnecting && <View style={styles.reconnectingDot} />}
+                    <Text style={[styles.status, error && styles.statusError]}>{status}</Text>
                 </View>
 
-                <Text style={styles.status}>{status}</Text>
+                {isActive && (
+                    <View style={styles.spokenCue}>
+                        <SpokenCueCard cue={spokenCues[0] ?? null} />
+                    </View>
+                )}
+
+                <View style={styles.cueFeed}>
+                    <CueFeed cues={cues} />
+                </View>
+
+                <View style={styles.transcript}>
+                    <Transcript turns={turns} />
+                </View>
             </View>
 
-            <View style={styles.footer}>
+            <KeyboardAvoidingView style={styles.footer} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
                 <TouchableOpacity
                     style={[
                         styles.button,
-                        isConnected ? styles.buttonDisconnect : styles.buttonConnect
+                        isActive ? styles.buttonDisconnect : styles.buttonConnect
                     ]}
-                    onPress={isConnected ? disconnect : connect}
+                    onPress={isActive ? endSession : connect}
+                    disabled={isEnding}
                 >
-                    {isConnected ? (
+                    {isActive ? (
                         <MicOff color="white" size={24} />
                     ) : (
                         <Mic color="white" size={24} />
                     )}
                     <Text style={styles.buttonText}>
-                        {isConnected ? 'Disconnect' : 'Connect'}
+                        {isEnding ? 'Ending...' : isActive ? 'Disconnect' : 'Connect'}
                     </Text>
                 </TouchableOpacity>
-            </View>
+
+                {isActive && (
+                    <TurnControls
+                        pushToTalk={pushToTalk}
+                        isTalking={isTalking}
+                        disabled={phase !== 'streaming'}
+                        onPushToTalkChange={setPushToTalk}
+                        onTalkStart={startTalking}
+                        onTalkEnd={stopTalking}
+                        onAskCoach={askCoach}
+                    />
+                )}
+
+                {isActive && <TextChatPanel disabled={phase !== 'streaming'} onSend={sendTextMessage} />}
+
+                <View style={styles.saveAudio}>
+                    <Switch value={saveAudio} onValueChange={setSaveAudio} disabled={isActive} />
+                    <Text style={styles.saveAudioText}>Save audio with session</Text>
+                </View>
+
+                <View style={styles.links}>
+                    {!isActive && sessions.length > 0 && (
+                        <TouchableOpacity onPress={() => router.push('/history')}>
+                            <Text style={styles.link}>History ({sessions.length})</Text>
+                        </TouchableOpacity>
+                    )}
+                    {!isActive && debriefs.length > 0 && (
+                        <TouchableOpacity onPress={() => router.push('/modal')}>
+                            <Text style={styles.link}>Past debriefs ({debriefs.length})</Text>
+                        </TouchableOpacity>
+                    )}
+                    {!isActive && (
+                        <TouchableOpacity onPress={() => router.push('/learn')}>
+                            <Text style={styles.link}>Techniques</Text>
+                        </TouchableOpacity>
+                    )}
+                    {!isActive && (
+                        <TouchableOpacity onPress={() => router.push('/settings')}>
+                            <Text style={styles.link}>Settings</Text>
+                        </TouchableOpacity>
+                    )}
+                    <TouchableOpacity onPress={() => setShowHaptics(true)}>
+                        <Text style={styles.link}>{haptics.settings.enabled ? 'Haptics on' : 'Haptics'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setShowDiagnostics(!showDiagnostics)}>
+                        <Text style={styles.link}>{showDiagnostics ? 'Hide diagnostics' : 'Diagnostics'}</Text>
+                    </TouchableOpacity>
+                </View>
+            </KeyboardAvoidingView>
+
+            <HapticSettings
+                visible={showHaptics}
+                settings={haptics.settings}
+                onChange={haptics.update}
+                onPatternChange={haptics.setPattern}
+                onClose={() => setShowHaptics(false)}
+            />
+
+            {showDiagnostics && (
+                <DiagnosticsOverlay
+                    snapshot={diagnostics}
+                    onExport={shareDiagnostics}
+                    onClose={() => setShowDiagnostics(false)}
+                />
+            )}
         </SafeAreaView>
     );
 }
@@ -67,6 +233,9 @@ const styles = StyleSheet.create({
         fontSize: 24,
         fontWeight: 'bold',
     },
+    scenarios: {
+        paddingTop: 16,
+    },
     content: {
         flex: 1,
         alignItems: 'center',
@@ -75,10 +244,38 @@ const styles = StyleSheet.create({
     orbContainer: {
         marginBottom: 40,
     },
+    statusRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: 20,
+    },
     status: {
         color: 'rgba(255, 255, 255, 0.7)',
         fontSize: 16,
         textAlign: 'center',
+    },
+    statusError: {
+        color: '#F87171', // red-400
+    },
+    reconnectingDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+        backgroundColor: '#FBBF24', // amber-400
+    },
+    spokenCue: {
+        width: '100%',
+        paddingHorizontal: 20,
+        marginTop: 16,
+    },
+    cueFeed: {
+        width: '100%',
+        marginTop: 24,
+    },
+    transcript: {
+        width: '100%',
+        marginTop: 16,
         paddingHorizontal: 20,
     },
     footer: {
@@ -102,6 +299,29 @@ const styles = StyleSheet.create({
     buttonDisconnect: {
         backgroundColor: '#EF4444',
     },
+    saveAudio: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 16,
+    },
+    saveAudioText: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 14,
+    },
+    links: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        columnGap: 24,
+        rowGap: 8,
+        marginTop: 16,
+    },
+    link: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 14,
+        textDecorationLine: 'underline',
+    },
     buttonText: {
         color: '#fff',
         fontSize: 18,
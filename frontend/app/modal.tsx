@@ -1,16 +1,101 @@
-import { Link } from 'expo-router';
-import { StyleSheet } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { useDebriefs } from '@/hooks/useDebriefs';
+import { formatDuration } from '@shared/debrief';
+import { techniqueInfo } from '@shared/cues';
+
+function Section({ title, items }: { title: string; items: string[] }) {
+  return (
+    <View style={styles.section}>
+      <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>{title}</ThemedText>
+      {items.length === 0 ? (
+        <ThemedText style={styles.muted}>None recorded</ThemedText>
+      ) : (
+        items.map((item) => <ThemedText key={item}>• {item}</ThemedText>)
+      )}
+    </View>
+  );
+}
+
+export default function DebriefScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { debriefs, isLoaded } = useDebriefs();
+  const [selectedId, setSelectedId] = useState<string | undefined>(id);
+
+  const debrief = debriefs.find((d) => d.id === selectedId) ?? debriefs[0];
+
+  if (!isLoaded) {
+    return <ThemedView style={styles.container} />;
+  }
+
+  if (!debrief) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ThemedText type="subtitle">No debriefs yet</ThemedText>
+        <ThemedText style={styles.muted}>End a session to get one.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const techniques = Object.entries(debrief.techniqueCounts);
 
-export default function ModalScreen() {
   return (
     <ThemedView style={styles.container}>
-      <ThemedText type="title">This is a modal</ThemedText>
-      <Link href="/" dismissTo style={styles.link}>
-        <ThemedText type="link">Go to home screen</ThemedText>
-      </Link>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="title">Debrief</ThemedText>
+        <ThemedText style={styles.muted}>
+          {debrief.scenarioTitle} · {new Date(debrief.createdAt).toLocaleString()} · {formatDuration(debrief.durationMs)}
+        </ThemedText>
+
+        {!debrief.summaryAvailable && (
+          <ThemedText style={styles.warning}>
+            Gemini did not return a summary before the session closed. Technique counts are still available.
+          </ThemedText>
+        )}
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Final terms</ThemedText>
+          <ThemedText type="subtitle">{debrief.finalTerms ?? 'No agreed terms recorded'}</ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Techniques used</ThemedText>
+          {techniques.length === 0 ? (
+            <ThemedText style={styles.muted}>The coach made no suggestions</ThemedText>
+          ) : (
+            <View style={styles.chips}>
+              {techniques.map(([tool, count]) => {
+                const info = techniqueInfo(tool);
+                return (
+                  <ThemedText key={tool} style={[styles.chip, { borderColor: info.color, color: info.color }]}>
+                    {info.label} × {count}
+                  </ThemedText>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        <Section title="Key points" items={debrief.keyPoints} />
+        <Section title="Concessions" items={debrief.concessions} />
+        <Section title="Missed opportunities" items={debrief.missedOpportunities} />
+
+        {debriefs.length > 1 && (
+          <View style={styles.section}>
+            <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>Past debriefs</ThemedText>
+            {debriefs.map((d) => (
+              <TouchableOpacity key={d.id} style={styles.pastItem} onPress={() => setSelectedId(d.id)}>
+                <ThemedText type={d.id === debrief.id ? 'defaultSemiBold' : 'default'}>{d.scenarioTitle}</ThemedText>
+                <ThemedText style={styles.muted}>{new Date(d.createdAt).toLocaleString()}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
     </ThemedView>
   );
 }
@@ -18,12 +103,48 @@ export default function ModalScreen() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+  },
+  centered: {
     alignItems: 'center',
     justifyContent: 'center',
     padding: 20,
   },
-  link: {
-    marginTop: 15,
-    paddingVertical: 15,
+  content: {
+    padding: 20,
+    gap: 8,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  warning: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#A16207', // yellow-700
+  },
+  section: {
+    marginTop: 16,
+    gap: 4,
+  },
+  sectionTitle: {
+    textTransform: 'uppercase',
+    opacity: 0.6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 2,
+  },
+  pastItem: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#262626',
   },
 });
@@ -0,0 +1,50 @@
+import { AudioContext, decodeAudioData, type AudioBuffer } from 'react-native-audio-api';
+import { FileCapture, type FileMonitor } from '@shared/fileCapture';
+
+/** Plays the decoded file on its own context, sped up to match the stream. */
+class NativeFileMonitor implements FileMonitor {
+  private context: AudioContext | null = null;
+
+  constructor(private readonly buffer: () => AudioBuffer | null) {}
+
+  start(speed: number) {
+    this.stop();
+    const buffer = this.buffer();
+    if (!buffer) return;
+    const context = new AudioContext();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = speed;
+    source.connect(context.destination);
+    source.start();
+    this.context = context;
+  }
+
+  stop() {
+    this.context?.close();
+    this.context = null;
+  }
+}
+
+export interface FileInputOptions {
+  speed: number;
+  playLocally: boolean;
+}
+
+/** A recorded negotiation at `uri` (WAV, MP3 or OGG) streamed in place of the microphone. */
+export function createFileCapture(uri: string, { speed, playLocally }: FileInputOptions): FileCapture {
+  let decoded: AudioBuffer | null = null;
+  return new FileCapture(
+    async () => {
+      decoded = await decodeAudioData(uri);
+      const buffer = decoded;
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+      return { sampleRate: buffer.sampleRate, channels };
+    },
+    {
+      speed,
+      monitor: playLocally ? new NativeFileMonitor(() => decoded) : undefined,
+      onEnded: () => console.log('[Audio] Input file finished streaming'),
+    }
+  );
+}
@@ -0,0 +1,48 @@
+import { ExpoAudioStreamModule, type useAudioRecorder } from '@siteed/expo-audio-studio';
+import { LegacyEventEmitter } from 'expo-modules-core';
+import base64js from 'base64-js';
+import { MIC_SAMPLE_RATE, type CaptureAdapter } from '@shared/liveSession';
+
+type NativeRecorder = Pick<ReturnType<typeof useAudioRecorder>, 'startRecording' | 'stopRecording'>;
+
+/** The session's microphone, recorded natively as 16 kHz PCM16 and delivered through `AudioData` events. */
+export class NativeCapture implements CaptureAdapter {
+  private subscription: { remove: () => void } | null = null;
+  private recording = false;
+
+  constructor(private readonly recorder: NativeRecorder) {}
+
+  async prepare() {
+    const status = await ExpoAudioStreamModule.requestPermissionsAsync();
+    if (!status.granted) console.warn('Microphone permission denied, continuing with text chat only');
+    return status.granted;
+  }
+
+  async start(onChunk: (pcm: Uint8Array) => void) {
+    this.subscription?.remove();
+    const emitter = new LegacyEventEmitter(ExpoAudioStreamModule);
+    this.subscription = emitter.addListener('AudioData', (event: any) => {
+      if (event.encoded) onChunk(base64js.toByteArray(event.encoded));
+    });
+    this.recording = true;
+    await this.recorder.startRecording({
+      sampleRate: MIC_SAMPLE_RATE,
+      channels: 1,
+      encoding: 'pcm_16bit',
+      // @ts-ignore
+      echoCancellation: true,
+      // @ts-ignore
+      autoGainControl: true,
+      // @ts-ignore
+      noiseSuppression: true,
+    });
+  }
+
+  async stop() {
+    this.subscription?.remove();
+    this.subscription = null;
+    if (!this.recording) return;
+    this.recording = false;
+    await this.recorder.stopRecording();
+  }
+}
@@ -0,0 +1,125 @@
+import { Platform } from 'react-native';
+import { AudioContext, type AnalyserNode } from 'react-native-audio-api';
+import type { PlaybackAdapter } from '@shared/liveSession';
+import { bytesToPcm16, pcm16ToFloat32 } from '@shared/pcm';
+import { JitterBuffer, type JitterBufferOptions } from '@shared/jitterBuffer';
+
+// Gemini's output rate
+const PLAYBACK_SAMPLE_RATE = 24000;
+
+/**
+ * Plays the coach through a react-native-audio-api BufferQueueSource, fed by
+ * the jitter buffer. The source is recreated after an interruption; the
+ * context is kept between sessions for a faster start.
+ */
+export class NativePlayback implements PlaybackAdapter {
+  private context: AudioContext | null = null;
+  // Playback goes through an analyser so the orb follows what is audible
+  private analyser: AnalyserNode | null = null;
+  private source: any = null;
+  private isSourceStarted = false;
+  private readonly buffer: JitterBuffer;
+
+  constructor(jitterBuffer?: Partial<JitterBufferOptions>) {
+    this.buffer = new JitterBuffer(jitterBuffer);
+  }
+
+  async prepare() {
+    this.ensureSource();
+    if (this.context?.state === 'suspended') await this.context.resume();
+  }
+
+  enqueue(pcm: Uint8Array) {
+    this.ensureSource();
+    if (this.context?.state === 'suspended') this.context.resume();
+    this.play(this.buffer.push(pcm));
+  }
+
+  flush() {
+    this.play(this.buffer.flush());
+  }
+
+  stop() {
+    if (this.source) {
+      try {
+        this.source.stop();
+        this.source.disconnect();
+      } catch (e) { console.warn('Error stopping source:', e); }
+      this.source = null;
+      this.isSourceStarted = false;
+    }
+    this.buffer.reset();
+  }
+
+  async close() {
+    this.stop();
+    const context = this.context;
+    this.context = null;
+    this.analyser = null;
+    try {
+      await context?.close();
+    } catch (e) { console.warn('Error closing context:', e); }
+  }
+
+  get queuedMs() {
+    const stats = this.buffer.stats;
+    return stats.queuedMs + stats.bufferedMs;
+  }
+
+  get stats() {
+    return this.buffer.stats;
+  }
+
+  readOutput(samples: Float32Array<ArrayBuffer>) {
+    if (this.analyser) this.analyser.getFloatTimeDomainData(samples);
+    else samples.fill(0);
+  }
+
+  private ensureSource() {
+    if (!this.context) {
+      console.log('[Audio] Setting up new AudioContext');
+      this.context = new AudioContext({ sampleRate: PLAYBACK_SAMPLE_RATE });
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.connect(this.context.destination);
+    }
+    if (this.source || Platform.OS === 'web') return;
+
+    console.log('[Audio] Creating new BufferQueueSource');
+    // @ts-ignore
+    const source = this.context.createBufferQueueSource();
+    source.connect(this.analyser ?? this.context.destination);
+    source.onEnded = () => {
+      // A source replaced after an interruption may still report its last buffers
+      if (this.source !== source) return;
+      const underruns = this.buffer.stats.underruns;
+      this.buffer.onBufferEnded();
+      if (this.buffer.stats.underruns > underruns) {
+        console.warn(`[Audio] Playback underrun, pre-roll now ${this.buffer.targetMs}ms`);
+      }
+    };
+    this.source = source;
+    this.isSourceStarted = false;
+  }
+
+  private play(bytes: Uint8Array | null) {
+    if (!bytes || !this.context || !this.source) return;
+
+    try {
+      const samples = pcm16ToFloat32(bytesToPcm16(bytes));
+      const audioBuffer = this.context.createBuffer(1, samples.length, PLAYBACK_SAMPLE_RATE);
+      audioBuffer.copyToChannel(samples, 0);
+      this.source.enqueueBuffer(audioBuffer);
+      const stats = this.buffer.stats;
+      console.log(`[Audio] Enqueued ${bytes.length} bytes. Queue: ${stats.queuedBuffers} buffers, ${stats.queuedMs}ms`);
+
+      if (!this.isSourceStarted) {
+        this.source.start();
+        this.isSourceStarted = true;
+        console.log('[Audio] Source started');
+      }
+    } catch (e) {
+      console.error('Error enqueuing audio buffer:', e);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import Animated, { FadeInRight } from 'react-native-reanimated';
+import {
+    Activity,
+    ClipboardList,
+    HeartHandshake,
+    MessageCircleQuestionMark,
+    Pause,
+    Repeat,
+    Sparkles,
+    Tag,
+    type LucideIcon,
+} from 'lucide-react-native';
+import { formatCueArgs, formatCueTime, techniqueInfo, type CoachCue } from '@shared/cues';
+import type { CoachTool } from '@shared/protocol';
+
+const ICONS: Record<CoachTool, LucideIcon> = {
+    suggest_mirroring: Repeat,
+    suggest_labeling: Tag,
+    suggest_tactical_empathy: HeartHandshake,
+    suggest_calibrated_questions: MessageCircleQuestionMark,
+    suggest_effective_pauses: Pause,
+    provide_real_time_feedback: Activity,
+    summarize_negotiation: ClipboardList,
+};
+
+interface CueFeedProps {
+    cues: CoachCue[];
+}
+
+export const CueFeed = ({ cues }: CueFeedProps) => {
+    if (cues.length === 0) {
+        return <Text style={styles.empty}>Coaching cues will appear here</Text>;
+    }
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+            {cues.map((cue) => {
+                const info = techniqueInfo(cue.tool);
+                const Icon = ICONS[cue.tool as CoachTool] ?? Sparkles;
+
+                return (
+                    <Animated.View
+                        key={cue.id}
+                        entering={FadeInRight}
+                        style={[styles.card, { borderColor: info.color }]}
+                    >
+                        <View style={styles.cardHeader}>
+                            <View style={styles.cardTitle}>
+                                <Icon color={info.color} size={18} />
+                                <Text style={[styles.label, { color: info.color }]}>{info.label}</Text>
+                            </View>
+                            <Text style={styles.time}>{formatCueTime(cue.receivedAt)}</Text>
+                        </View>
+                        {formatCueArgs(cue.args).map((line) => (
+                            <Text key={line} style={styles.args}>{line}</Text>
+                        ))}
+                    </Animated.View>
+                );
+            })}
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+        maxHeight: 220,
+    },
+    content: {
+        gap: 10,
+        paddingHorizontal: 20,
+    },
+    empty: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 14,
+        textAlign: 'center',
+    },
+    card: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        backgroundColor: 'rgba(24, 24, 27, 0.8)', // zinc-900/80
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    cardTitle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    time: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 12,
+    },
+    args: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 14,
+        marginTop: 4,
+    },
+});
@@ -0,0 +1,108 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Share2, X } from 'lucide-react-native';
+import { formatMs, formatRate, type DiagnosticsSnapshot, type LatencyStats } from '@shared/diagnostics';
+
+interface DiagnosticsOverlayProps {
+    snapshot: DiagnosticsSnapshot | null;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+const LatencyRow = ({ label, stats }: { label: string; stats: LatencyStats }) => (
+    <Text style={styles.row}>
+        <Text style={styles.label}>{label} </Text>
+        {formatMs(stats.lastMs)} · avg {formatMs(stats.avgMs)} · p95 {formatMs(stats.p95Ms)} ({stats.count})
+    </Text>
+);
+
+export const DiagnosticsOverlay = ({ snapshot, onExport, onClose }: DiagnosticsOverlayProps) => {
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.title}>Diagnostics</Text>
+                <View style={styles.actions}>
+                    <TouchableOpacity style={styles.action} onPress={onExport}>
+                        <Share2 color="white" size={14} />
+                        <Text style={styles.row}>JSON</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={onClose}>
+                        <X color="white" size={14} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            {snapshot ? (
+                <>
+                    <LatencyRow label="Mic → cue" stats={snapshot.micToCue} />
+                    <LatencyRow label="1st audio" stats={snapshot.firstAudio} />
+                    <Text style={styles.row}>
+                        <Text style={styles.label}>Playback queue </Text>
+                        {snapshot.queueDepthMs} ms
+                    </Text>
+                    {snapshot.playback && (
+                        <Text style={styles.row}>
+                            <Text style={styles.label}>Jitter buffer </Text>
+                            target {snapshot.playback.targetMs} ms · jitter {snapshot.playback.jitterMs} ms ·
+                            {' '}{snapshot.playback.underruns} underruns · {snapshot.playback.overflows} overflows
+                        </Text>
+                    )}
+                    <Text style={styles.row}>
+                        <Text style={styles.label}>Sent </Text>
+                        {formatRate(snapshot.sentBytesPerSec)}
+                        <Text style={styles.label}>  Received </Text>
+                        {formatRate(snapshot.receivedBytesPerSec)}
+                    </Text>
+                </>
+            ) : (
+                <Text style={styles.label}>Connect to collect metrics</Text>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        right: 12,
+        zIndex: 40,
+        padding: 12,
+        gap: 4,
+        borderWidth: 1,
+        borderColor: '#262626', // neutral-800
+        borderRadius: 12,
+        backgroundColor: 'rgba(9, 9, 11, 0.9)', // zinc-950/90
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 4,
+    },
+    title: {
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: 'bold',
+    },
+    actions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    action: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    row: {
+        color: '#fff',
+        fontSize: 12,
+        fontFamily: 'monospace',
+    },
+    label: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 12,
+    },
+});
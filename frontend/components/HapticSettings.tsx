@@ -0,0 +1,149 @@
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { Vibrate } from 'lucide-react-native';
+import { COACH_TOOLS, type CoachTool } from '@shared/protocol';
+import { techniqueInfo } from '@shared/cues';
+import {
+    HAPTIC_PATTERN_PRESETS,
+    formatHapticPattern,
+    playHapticPattern,
+    type HapticCueSettings,
+    type HapticPattern,
+} from '@/hooks/useHapticCues';
+
+interface HapticSettingsProps {
+    visible: boolean;
+    settings: HapticCueSettings;
+    onChange: (changes: Partial<Omit<HapticCueSettings, 'patterns'>>) => void;
+    onPatternChange: (tool: CoachTool, pattern: HapticPattern) => void;
+    onClose: () => void;
+}
+
+// The summary only arrives when a session ends, so it has no cue to vibrate for
+const CUE_TOOLS = COACH_TOOLS.filter((tool) => tool !== 'summarize_negotiation');
+
+const nextPreset = (pattern: HapticPattern) => {
+    const index = HAPTIC_PATTERN_PRESETS.findIndex((preset) => preset.join() === pattern.join());
+    return HAPTIC_PATTERN_PRESETS[(index + 1) % HAPTIC_PATTERN_PRESETS.length];
+};
+
+export const HapticSettings = ({ visible, settings, onChange, onPatternChange, onClose }: HapticSettingsProps) => {
+    return (
+        <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+            <View style={styles.backdrop}>
+                <View style={styles.modal}>
+                    <Text style={styles.title}>Haptic cues</Text>
+
+                    <View style={styles.toggle}>
+                        <Text style={styles.text}>Vibrate for each cue</Text>
+                        <Switch value={settings.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+                    </View>
+                    <View style={styles.toggle}>
+                        <Text style={[styles.text, !settings.enabled && styles.muted]}>Mute the coach&apos;s voice</Text>
+                        <Switch
+                            value={settings.muteAudio}
+                            disabled={!settings.enabled}
+                            onValueChange={(muteAudio) => onChange({ muteAudio })}
+                        />
+                    </View>
+
+                    <Text style={styles.hint}>Tap a pattern to change it: • short, — long</Text>
+                    <ScrollView contentContainerStyle={styles.list}>
+                        {CUE_TOOLS.map((tool) => {
+                            const info = techniqueInfo(tool);
+                            const pattern = settings.patterns[tool];
+                            return (
+                                <View key={tool} style={styles.row}>
+                                    <View style={[styles.dot, { backgroundColor: info.color }]} />
+                                    <Text style={[styles.text, styles.label]}>{info.label}</Text>
+                                    <TouchableOpacity style={styles.pattern} onPress={() => onPatternChange(tool, nextPreset(pattern))}>
+                                        <Text style={styles.text}>{formatHapticPattern(pattern)}</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={() => playHapticPattern(pattern)} disabled={pattern.length === 0}>
+                                        <Vibrate color={pattern.length === 0 ? '#52525B' : 'white'} size={18} />
+                                    </TouchableOpacity>
+                                </View>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+                        <Text style={styles.text}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    modal: {
+        backgroundColor: '#18181B', // zinc-900
+        padding: 20,
+        gap: 10,
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        maxHeight: '80%',
+    },
+    title: {
+        color: '#fff',
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 6,
+    },
+    toggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    text: {
+        color: '#fff',
+        fontSize: 15,
+    },
+    muted: {
+        opacity: 0.4,
+    },
+    hint: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 13,
+        marginTop: 6,
+    },
+    list: {
+        gap: 8,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    dot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    label: {
+        flex: 1,
+    },
+    pattern: {
+        minWidth: 80,
+        alignItems: 'center',
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#404040', // neutral-700
+    },
+    doneButton: {
+        alignSelf: 'flex-end',
+        backgroundColor: '#2563EB', // blue-600
+        paddingVertical: 10,
+        paddingHorizontal: 18,
+        borderRadius: 20,
+        marginTop: 6,
+    },
+});
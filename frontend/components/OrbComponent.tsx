@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { View, StyleSheet } from 'react-native';
+import { StyleSheet } from 'react-native';
 import Animated, {
     useSharedValue,
     useAnimatedStyle,
@@ -20,15 +20,15 @@ export const OrbComponent = ({ isActive, volume = 0 }: OrbProps) => {
     const opacity = useSharedValue(0.5);
     const rotate = useSharedValue(0);
     const innerScale = useSharedValue(1);
+    const level = useSharedValue(0);
 
     useEffect(() => {
         if (isActive) {
-            // Pulse animation (Core) - scaled by volume
-            // Web: [1, 1.2 + volume, 1]
-            const targetScale = 1.2 + (volume || 0);
+            // Pulse animation (Core)
+            // Web: [1, 1.2, 1]
             scale.value = withRepeat(
                 withSequence(
-                    withTiming(targetScale, { duration: 500, easing: Easing.inOut(Easing.ease) }),
+                    withTiming(1.2, { duration: 500, easing: Easing.inOut(Easing.ease) }),
                     withTiming(1, { duration: 500, easing: Easing.inOut(Easing.ease) })
                 ),
                 -1,
@@ -69,7 +69,18 @@ export const OrbComponent = ({ isActive, volume = 0 }: OrbProps) => {
             rotate.value = withTiming(0);
             innerScale.value = withTiming(1);
         }
-    }, [isActive, volume]);
+    }, [isActive]);
+
+    // Live level scales the whole orb on top of the pulse, like the web wrapper
+    useEffect(() => {
+        level.value = withTiming(volume, { duration: 100, easing: Easing.out(Easing.ease) });
+    }, [volume, level]);
+
+    const containerStyle = useAnimatedStyle(() => {
+        return {
+            transform: [{ scale: 1 + level.value * 0.35 }],
+        };
+    });
 
     const animatedStyle = useAnimatedStyle(() => {
         return {
@@ -98,7 +109,7 @@ export const OrbComponent = ({ isActive, volume = 0 }: OrbProps) => {
     });
 
     return (
-        <View style={styles.container}>
+        <Animated.View style={[styles.container, containerStyle]}>
             {/* Core Orb */}
             <Animated.View style={[styles.orb, animatedStyle]}>
                 <LinearGradient
@@ -114,7 +125,7 @@ export const OrbComponent = ({ isActive, volume = 0 }: OrbProps) => {
 
             {/* Outer glow */}
             <Animated.View style={[styles.glow, glowStyle]} />
-        </View>
+        </Animated.View>
     );
 };
 
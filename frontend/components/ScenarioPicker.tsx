@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Plus, Trash2 } from 'lucide-react-native';
+import { LIVE_COACH_TITLE, validateScenario, type Scenario } from '@shared/scenarios';
+
+interface ScenarioPickerProps {
+    scenarios: Scenario[];
+    selected: Scenario | null;
+    disabled?: boolean;
+    onSelect: (id: string | null) => void;
+    onCreate: (fields: Omit<Scenario, 'id' | 'builtIn'>) => void;
+    onDelete: (id: string) => void;
+}
+
+const EMPTY_FORM = { title: '', role: '', objective: '', prompt: '' };
+
+export const ScenarioPicker = ({ scenarios, selected, disabled, onSelect, onCreate, onDelete }: ScenarioPickerProps) => {
+    const [isCreating, setIsCreating] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [error, setError] = useState<string | null>(null);
+
+    const submit = () => {
+        const validationError = validateScenario(form);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        onCreate(form);
+        setForm(EMPTY_FORM);
+        setError(null);
+        setIsCreating(false);
+    };
+
+    return (
+        <View style={[styles.container, disabled && styles.disabled]}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                <TouchableOpacity
+                    disabled={disabled}
+                    style={[styles.chip, selected === null && styles.chipSelected]}
+                    onPress={() => onSelect(null)}
+                >
+                    <Text style={styles.chipText}>{LIVE_COACH_TITLE}</Text>
+                </TouchableOpacity>
+                {scenarios.map((scenario) => (
+                    <TouchableOpacity
+                        key={scenario.id}
+                        disabled={disabled}
+                        style={[styles.chip, selected?.id === scenario.id && styles.chipSelected]}
+                        onPress={() => onSelect(scenario.id)}
+                        onLongPress={() => !scenario.builtIn && onDelete(scenario.id)}
+                    >
+                        <Text style={styles.chipText}>{scenario.title}</Text>
+                        {!scenario.builtIn && <Trash2 color="rgba(255, 255, 255, 0.4)" size={12} />}
+                    </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                    disabled={disabled}
+                    style={[styles.chip, styles.chipNew]}
+                    onPress={() => setIsCreating(true)}
+                >
+                    <Plus color="white" size={14} />
+                    <Text style={styles.chipText}>New</Text>
+                </TouchableOpacity>
+            </ScrollView>
+
+            {selected && (
+                <Text style={styles.objective}>
+                    Practice against: <Text style={styles.bold}>{selected.role}</Text> — {selected.objective}
+                </Text>
+            )}
+
+            <Modal visible={isCreating} animationType="slide" transparent onRequestClose={() => setIsCreating(false)}>
+                <View style={styles.modalBackdrop}>
+                    <View style={styles.modal}>
+                        <Text style={styles.modalTitle}>New scenario</Text>
+                        <TextInput
+                            style={styles.input}
+                            placeholder="Title (e.g. Rent renewal)"
+                            placeholderTextColor="#71717A"
+                            value={form.title}
+                            onChangeText={(title) => setForm({ ...form, title })}
+                        />
+                        <TextInput
+                            style={styles.input}
+                            placeholder="Counterpart role (e.g. Landlord)"
+                            placeholderTextColor="#71717A"
+                            value={form.role}
+                            onChangeText={(role) => setForm({ ...form, role })}
+                        />
+                        <TextInput
+                            style={styles.input}
+                            placeholder="Counterpart objective"
+                            placeholderTextColor="#71717A"
+                            value={form.objective}
+                            onChangeText={(objective) => setForm({ ...form, objective })}
+                        />
+                        <TextInput
+                            style={[styles.input, styles.inputMultiline]}
+                            placeholder="Prompt describing how the counterpart should behave"
+                            placeholderTextColor="#71717A"
+                            multiline
+                            value={form.prompt}
+                            onChangeText={(prompt) => setForm({ ...form, prompt })}
+                        />
+                        {error && <Text style={styles.error}>{error}</Text>}
+                        <View style={styles.modalActions}>
+                            <TouchableOpacity onPress={() => setIsCreating(false)}>
+                                <Text style={styles.cancelText}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.saveButton} onPress={submit}>
+                                <Text style={styles.chipText}>Save scenario</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+    },
+    disabled: {
+        opacity: 0.4,
+    },
+    chips: {
+        gap: 8,
+        paddingHorizontal: 20,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#404040', // neutral-700
+    },
+    chipSelected: {
+        borderColor: '#3B82F6', // blue-500
+        backgroundColor: 'rgba(37, 99, 235, 0.3)',
+    },
+    chipNew: {
+        borderStyle: 'dashed',
+    },
+    chipText: {
+        color: '#fff',
+        fontSize: 14,
+    },
+    objective: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 13,
+        textAlign: 'center',
+        marginTop: 10,
+        paddingHorizontal: 20,
+    },
+    bold: {
+        fontWeight: 'bold',
+    },
+    modalBackdrop: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    modal: {
+        backgroundColor: '#18181B', // zinc-900
+        padding: 20,
+        gap: 10,
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+    },
+    modalTitle: {
+        color: '#fff',
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 6,
+    },
+    input: {
+        color: '#fff',
+        borderWidth: 1,
+        borderColor: '#404040',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+    },
+    inputMultiline: {
+        height: 100,
+        textAlignVertical: 'top',
+    },
+    error: {
+        color: '#F87171', // red-400
+        fontSize: 14,
+    },
+    modalActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+        gap: 20,
+        marginTop: 6,
+    },
+    cancelText: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 15,
+    },
+    saveButton: {
+        backgroundColor: '#2563EB',
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        borderRadius: 16,
+    },
+});
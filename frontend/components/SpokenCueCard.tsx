@@ -0,0 +1,50 @@
+import React from 'react';
+import { StyleSheet, Text } from 'react-native';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import { techniqueInfo } from '@shared/cues';
+import { formatSpokenCue, type SpokenCue } from '@shared/cueParser';
+
+// Below this the coach's words only loosely matched the cue format
+const LOW_CONFIDENCE = 0.5;
+
+interface SpokenCueCardProps {
+    cue: SpokenCue | null;
+}
+
+/** The coach's latest spoken cue in large type, e.g. "MIRROR: fair price?", readable at a glance. */
+export const SpokenCueCard = ({ cue }: SpokenCueCardProps) => {
+    if (!cue) return null;
+    const info = techniqueInfo(cue.technique);
+
+    return (
+        <Animated.View
+            key={cue.turnId}
+            entering={FadeIn}
+            exiting={FadeOut}
+            style={[styles.card, { borderColor: info.color }, cue.confidence < LOW_CONFIDENCE && styles.uncertain]}
+        >
+            <Text style={[styles.text, { color: info.color }]} adjustsFontSizeToFit numberOfLines={2}>
+                {formatSpokenCue(cue)}
+            </Text>
+        </Animated.View>
+    );
+};
+
+const styles = StyleSheet.create({
+    card: {
+        width: '100%',
+        borderWidth: 2,
+        borderRadius: 16,
+        paddingHorizontal: 20,
+        paddingVertical: 14,
+        backgroundColor: 'rgba(24, 24, 27, 0.8)', // zinc-900
+    },
+    uncertain: {
+        opacity: 0.6,
+    },
+    text: {
+        fontSize: 30,
+        fontWeight: 'bold',
+        textAlign: 'center',
+    },
+});
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { techniqueInfo } from '@shared/cues';
+import type { Drill, GlossaryTool } from '@/constants/techniques';
+
+interface TechniqueDrillProps {
+    drill: Drill;
+    index: number;
+}
+
+/** One "what would the coach say?" question; a wrong pick can be retried until the answer is found. */
+export const TechniqueDrill = ({ drill, index }: TechniqueDrillProps) => {
+    const [picked, setPicked] = useState<GlossaryTool[]>([]);
+    const solved = picked.includes(drill.answer);
+
+    return (
+        <View style={styles.container}>
+            <ThemedText type="defaultSemiBold">Drill {index + 1}</ThemedText>
+            <ThemedText style={styles.prompt}>{drill.prompt}</ThemedText>
+            <View style={styles.options}>
+                {drill.options.map((tool) => {
+                    const info = techniqueInfo(tool);
+                    const isPicked = picked.includes(tool);
+                    return (
+                        <TouchableOpacity
+                            key={tool}
+                            style={[
+                                styles.option,
+                                { borderColor: info.color },
+                                isPicked && { backgroundColor: tool === drill.answer ? info.color : '#3F3F46' },
+                            ]}
+                            onPress={() => setPicked((prev) => (prev.includes(tool) ? prev : [...prev, tool]))}
+                            disabled={solved || isPicked}
+                        >
+                            <ThemedText type="defaultSemiBold" style={isPicked && tool !== drill.answer && styles.wrong}>
+                                {info.label}
+                            </ThemedText>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+            {!solved && picked.length > 0 && <ThemedText style={styles.muted}>Not quite - try another technique.</ThemedText>}
+            {solved && (
+                <View style={styles.answer}>
+                    <ThemedText style={[styles.cue, { color: techniqueInfo(drill.answer).color }]}>
+                        “{drill.cue}”
+                    </ThemedText>
+                    <ThemedText style={styles.muted}>{drill.explanation}</ThemedText>
+                    <TouchableOpacity onPress={() => setPicked([])}>
+                        <ThemedText type="link">Try again</ThemedText>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 8,
+        paddingVertical: 12,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+        borderBottomColor: '#262626',
+    },
+    prompt: {
+        fontStyle: 'italic',
+    },
+    options: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    option: {
+        borderWidth: 1,
+        borderRadius: 16,
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+    },
+    wrong: {
+        textDecorationLine: 'line-through',
+        opacity: 0.6,
+    },
+    answer: {
+        gap: 4,
+    },
+    cue: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    muted: {
+        opacity: 0.6,
+    },
+});
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { SendHorizontal } from 'lucide-react-native';
+
+interface TextChatPanelProps {
+    disabled: boolean;
+    onSend: (text: string) => void;
+}
+
+/** Typed questions for the coach, for when speaking to it isn't possible. */
+export const TextChatPanel = ({ disabled, onSend }: TextChatPanelProps) => {
+    const [text, setText] = useState('');
+    const canSend = !disabled && text.trim().length > 0;
+
+    const submit = () => {
+        if (!canSend) return;
+        onSend(text.trim());
+        setText('');
+    };
+
+    return (
+        <View style={[styles.container, disabled && styles.disabled]}>
+            <TextInput
+                style={styles.input}
+                value={text}
+                onChangeText={setText}
+                onSubmitEditing={submit}
+                editable={!disabled}
+                placeholder="Type to the coach..."
+                placeholderTextColor="rgba(255, 255, 255, 0.4)"
+                returnKeyType="send"
+            />
+            <TouchableOpacity style={styles.send} onPress={submit} disabled={!canSend}>
+                <SendHorizontal color={canSend ? 'white' : '#52525B'} size={18} />
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        width: '100%',
+        marginTop: 16,
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    input: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 14,
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: '#404040', // neutral-700
+        backgroundColor: '#18181B', // zinc-900
+    },
+    send: {
+        padding: 10,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: '#404040', // neutral-700
+    },
+});
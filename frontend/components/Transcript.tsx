@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import {
+    NativeScrollEvent,
+    NativeSyntheticEvent,
+    ScrollView,
+    Share,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { ArrowDown, Copy, Share2 } from 'lucide-react-native';
+import { roleLabel, transcriptToMarkdown, type TranscriptTurn } from '@shared/transcript';
+
+interface TranscriptProps {
+    turns: TranscriptTurn[];
+}
+
+// Distance from the bottom (px) within which the pane keeps following new text
+const STICKY_THRESHOLD = 40;
+
+export const Transcript = ({ turns }: TranscriptProps) => {
+    const scrollRef = useRef<ScrollView>(null);
+    const [isFollowing, setIsFollowing] = useState(true);
+    const [copyResult, setCopyResult] = useState<'copied' | 'failed' | null>(null);
+
+    const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const { contentOffset, contentSize, layoutMeasurement } = nativeEvent;
+        setIsFollowing(contentSize.height - contentOffset.y - layoutMeasurement.height < STICKY_THRESHOLD);
+    };
+
+    const jumpToLatest = () => {
+        scrollRef.current?.scrollToEnd({ animated: true });
+        setIsFollowing(true);
+    };
+
+    const copyMarkdown = async () => {
+        try {
+            await Clipboard.setStringAsync(transcriptToMarkdown(turns));
+            setCopyResult('copied');
+        } catch (e) {
+            console.warn('Error copying transcript:', e);
+            setCopyResult('failed');
+        }
+        setTimeout(() => setCopyResult(null), 1500);
+    };
+
+    const shareMarkdown = async () => {
+        try {
+            await Share.share({ message: transcriptToMarkdown(turns) });
+        } catch (e) {
+            console.warn('Error sharing transcript:', e);
+        }
+    };
+
+    const isEmpty = turns.length === 0;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.headerTitle}>Transcript</Text>
+                <View style={styles.actions}>
+                    <TouchableOpacity style={styles.action} onPress={copyMarkdown} disabled={isEmpty}>
+                        <Copy color="white" size={14} />
+                        <Text style={styles.actionText}>{copyResult === 'copied' ? 'Copied' : copyResult === 'failed' ? 'Copy failed' : 'Copy'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.action} onPress={shareMarkdown} disabled={isEmpty}>
+                        <Share2 color="white" size={14} />
+                        <Text style={styles.actionText}>Export</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <ScrollView
+                ref={scrollRef}
+                style={styles.scroll}
+                contentContainerStyle={styles.scrollContent}
+                onScroll={handleScroll}
+                scrollEventThrottle={100}
+                onContentSizeChange={() => {
+                    if (isFollowing) scrollRef.current?.scrollToEnd({ animated: false });
+                }}
+            >
+                {isEmpty && <Text style={styles.empty}>{"The coach's words will appear here"}</Text>}
+                {turns.map((turn) => (
+                    <Text key={turn.id} style={[styles.turn, turn.endedAt !== null && styles.turnClosed]}>
+                        <Text style={turn.role === 'coach' ? styles.coach : styles.user}>
+                            {roleLabel(turn.role)}:{' '}
+                        </Text>
+                        {turn.text}
+                        {turn.interrupted && <Text style={styles.interrupted}> (interrupted)</Text>}
+                    </Text>
+                ))}
+            </ScrollView>
+
+            {!isFollowing && (
+                <TouchableOpacity style={styles.jump} onPress={jumpToLatest}>
+                    <ArrowDown color="white" size={14} />
+                    <Text style={styles.actionText}>Jump to latest</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+        borderWidth: 1,
+        borderColor: '#262626', // neutral-800
+        borderRadius: 12,
+        backgroundColor: 'rgba(24, 24, 27, 0.6)', // zinc-900/60
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: '#262626',
+    },
+    headerTitle: {
+        color: 'rgba(255, 255, 255, 0.7)',
+        fontSize: 14,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    action: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    actionText: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 12,
+    },
+    scroll: {
+        maxHeight: 180,
+    },
+    scrollContent: {
+        padding: 12,
+        gap: 8,
+    },
+    empty: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 14,
+    },
+    turn: {
+        color: '#fff',
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    turnClosed: {
+        color: 'rgba(255, 255, 255, 0.8)',
+    },
+    coach: {
+        color: '#60A5FA', // blue-400
+        fontWeight: 'bold',
+    },
+    user: {
+        color: '#34D399', // emerald-400
+        fontWeight: 'bold',
+    },
+    interrupted: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 12,
+    },
+    jump: {
+        position: 'absolute',
+        bottom: 10,
+        alignSelf: 'center',
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#2563EB',
+    },
+});
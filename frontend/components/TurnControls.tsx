@@ -0,0 +1,98 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { Mic, MessageSquareReply } from 'lucide-react-native';
+
+interface TurnControlsProps {
+    pushToTalk: boolean;
+    isTalking: boolean;
+    disabled: boolean;
+    onPushToTalkChange: (enabled: boolean) => void;
+    onTalkStart: () => void;
+    onTalkEnd: () => void;
+    onAskCoach: () => void;
+}
+
+/** Push-to-talk (hold the button to talk) and "ask the coach now". */
+export const TurnControls = ({
+    pushToTalk,
+    isTalking,
+    disabled,
+    onPushToTalkChange,
+    onTalkStart,
+    onTalkEnd,
+    onAskCoach,
+}: TurnControlsProps) => {
+    return (
+        <View style={styles.container}>
+            <View style={styles.buttons}>
+                {pushToTalk && (
+                    <TouchableOpacity
+                        style={[styles.button, isTalking && styles.buttonTalking, disabled && styles.disabled]}
+                        onPressIn={onTalkStart}
+                        onPressOut={onTalkEnd}
+                        disabled={disabled}
+                        activeOpacity={0.8}
+                    >
+                        <Mic color="white" size={16} />
+                        <Text style={styles.buttonText}>{isTalking ? 'Talking...' : 'Hold to talk'}</Text>
+                    </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                    style={[styles.button, disabled && styles.disabled]}
+                    onPress={onAskCoach}
+                    disabled={disabled}
+                >
+                    <MessageSquareReply color="white" size={16} />
+                    <Text style={styles.buttonText}>Ask coach now</Text>
+                </TouchableOpacity>
+            </View>
+            <View style={styles.toggle}>
+                <Switch value={pushToTalk} onValueChange={onPushToTalkChange} />
+                <Text style={styles.toggleText}>Push-to-talk</Text>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        alignItems: 'center',
+        gap: 12,
+        marginTop: 16,
+    },
+    buttons: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    button: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 10,
+        paddingHorizontal: 18,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: '#404040', // neutral-700
+    },
+    buttonTalking: {
+        borderColor: '#34D399', // emerald-400
+        backgroundColor: 'rgba(16, 185, 129, 0.3)', // emerald-500/30
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    toggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    toggleText: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 14,
+    },
+});
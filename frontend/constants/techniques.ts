@@ -0,0 +1,106 @@
+import type { CoachTool } from '@shared/protocol';
+
+export type GlossaryTool = Extract<
+  CoachTool,
+  | 'suggest_mirroring'
+  | 'suggest_labeling'
+  | 'suggest_tactical_empathy'
+  | 'suggest_calibrated_questions'
+  | 'suggest_effective_pauses'
+>;
+
+export interface GlossaryEntry {
+  tool: GlossaryTool;
+  title: string;
+  summary: string;
+  whenToUse: string;
+  // What the coach whispers, in its `<technique>, <what to say>` format
+  cues: string[];
+}
+
+/** The techniques the coach suggests, as its system prompt describes them. */
+export const GLOSSARY: GlossaryEntry[] = [
+  {
+    tool: 'suggest_mirroring',
+    title: 'Mirroring',
+    summary: 'Repeat the last one to three words (or the critical ones) the counterpart said, as a question.',
+    whenToUse: 'They said something vague or important and you want them to keep talking and explain it.',
+    cues: ['Mirror, fair price?', 'Mirror, final offer?', 'Mirror, next quarter?'],
+  },
+  {
+    tool: 'suggest_labeling',
+    title: 'Labeling',
+    summary: 'Name the emotion you hear, starting with "It seems like..." or "It sounds like...".',
+    whenToUse: 'The counterpart is frustrated, worried or defensive; naming it defuses it.',
+    cues: ['Label, it seems like you are upset.', 'Label, it sounds like the deadline worries you.'],
+  },
+  {
+    tool: 'suggest_tactical_empathy',
+    title: 'Tactical Empathy',
+    summary: 'Show that you see the situation from their side, without agreeing to their terms.',
+    whenToUse: 'They explain their constraints or feel unheard.',
+    cues: ['Empathy, I understand your position.', 'Empathy, that sounds like a tough spot to be in.'],
+  },
+  {
+    tool: 'suggest_calibrated_questions',
+    title: 'Calibrated Questions',
+    summary: 'Ask open "How" or "What" questions that make them solve your problem. Avoid "Why", which sounds accusatory.',
+    whenToUse: 'You are handed an offer you can not accept, or need information.',
+    cues: ['Ask, how am I supposed to do that?', 'Ask, what makes you say that?'],
+  },
+  {
+    tool: 'suggest_effective_pauses',
+    title: 'Effective Pauses',
+    summary: 'Stay silent after a question or a label and let the silence do the work.',
+    whenToUse: 'Right after they make an offer or after you have labeled or mirrored.',
+    cues: ['Pause.'],
+  },
+];
+
+export interface Drill {
+  // What the counterpart just said
+  prompt: string;
+  options: GlossaryTool[];
+  answer: GlossaryTool;
+  // The coach's cue for this moment
+  cue: string;
+  explanation: string;
+}
+
+export const DRILLS: Drill[] = [
+  {
+    prompt: '"Honestly, I think this is already a fair price."',
+    options: ['suggest_mirroring', 'suggest_tactical_empathy', 'suggest_effective_pauses'],
+    answer: 'suggest_mirroring',
+    cue: 'Mirror, fair price?',
+    explanation: 'Mirroring "fair price?" makes them justify the number instead of you arguing against it.',
+  },
+  {
+    prompt: '"We have been waiting on your team for three weeks and nobody calls us back!"',
+    options: ['suggest_calibrated_questions', 'suggest_labeling', 'suggest_mirroring'],
+    answer: 'suggest_labeling',
+    cue: 'Label, it seems like you feel ignored.',
+    explanation: 'An angry counterpart needs to feel heard before any number matters; labeling the emotion defuses it.',
+  },
+  {
+    prompt: '"Take it or leave it: 20% off is the best we can do."',
+    options: ['suggest_tactical_empathy', 'suggest_calibrated_questions', 'suggest_labeling'],
+    answer: 'suggest_calibrated_questions',
+    cue: 'Ask, how am I supposed to do that?',
+    explanation: 'A "How" question turns their ultimatum into their problem to solve, without saying no.',
+  },
+  {
+    prompt: '"OK... I could maybe stretch to 15,000."',
+    options: ['suggest_effective_pauses', 'suggest_mirroring', 'suggest_calibrated_questions'],
+    answer: 'suggest_effective_pauses',
+    cue: 'Pause.',
+    explanation: 'They just moved. Silence invites them to keep going, often with a better offer.',
+  },
+  {
+    prompt: '"My boss will kill me if this deal slips to next year."',
+    options: ['suggest_mirroring', 'suggest_tactical_empathy', 'suggest_effective_pauses'],
+    answer: 'suggest_tactical_empathy',
+    cue: 'Empathy, that sounds like a lot of pressure on you.',
+    explanation: 'Showing you see their constraint builds the trust you need to ask for more later.',
+  },
+];
@@ -1,364 +1,144 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo, useSyncExternalStore } from 'react';
 import { Platform } from 'react-native';
-import { AudioContext } from 'react-native-audio-api';
-import { ExpoAudioStreamModule } from '@siteed/expo-audio-studio';
 import { useAudioRecorder } from '@siteed/expo-audio-studio';
-import { LegacyEventEmitter } from 'expo-modules-core';
-import base64js from 'base64-js';
-
-// For physical device, use your computer's IP address on the same WiFi network
-const BACKEND_URL = Platform.select({
-  ios: 'ws://YOUR_COMPUTER_IP:8000/ws',
-  android: 'ws://YOUR_COMPUTER_IP:8000/ws',
-  default: 'ws://localhost:8000/ws',
-});
+import { LiveSession } from '@shared/liveSession';
+import type { CoachCue } from '@shared/cues';
+import type { Scenario } from '@shared/scenarios';
+import type { AudioChunkRecord, SessionRecord } from '@shared/sessions';
+import type { DiagnosticsSnapshot } from '@shared/diagnostics';
+import type { JitterBufferOptions, JitterBufferStats } from '@shared/jitterBuffer';
+import { DEFAULT_BACKEND_URL } from '@shared/backend';
+import { NativeCapture } from '@/audio/nativeCapture';
+import { NativePlayback } from '@/audio/nativePlayback';
+import { createFileCapture } from '@/audio/fileInput';
 
 interface UseAudioConnectionProps {
+  // WebSocket URL of the backend, from the settings screen; read on each (re)connect
+  backendUrl?: string;
   onIntensityChange?: (intensity: number) => void;
+  // Practice scenario sent in start_session; null runs the live coach
+  scenario?: Scenario | null;
+  // Keep mic and coach audio with the session record passed to onSessionEnd
+  saveAudio?: boolean;
+  onSessionEnd?: (session: SessionRecord, audio: AudioChunkRecord[]) => void;
+  // Playback pre-roll and jitter buffer limits; read when the hook mounts
+  jitterBuffer?: Partial<JitterBufferOptions>;
+  // Called for every coaching cue, e.g. to vibrate
+  onCue?: (cue: CoachCue) => void;
+  // Drop the coach's voice instead of playing it (it is still recorded)
+  muteCoachAudio?: boolean;
+  // Only send mic audio between startTalking and stopTalking
+  pushToTalk?: boolean;
+  // Dev builds only: a recorded negotiation (file URI) streamed instead of the microphone, from the next connect
+  inputFileUri?: string | null;
+  fileSpeed?: number;
+  playFileLocally?: boolean;
 }
 
-export function useAudioConnection({ onIntensityChange }: UseAudioConnectionProps = {}) {
-  const [isConnected, setIsConnected] = useState(false);
-  const [status, setStatus] = useState('Ready to connect');
-  const [isSpeaking, setIsSpeaking] = useState(false);
-
-  const wsRef = useRef<WebSocket | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<any>(null);
-  const isSourceStartedRef = useRef(false);
-  const isSpeakingRef = useRef(false);
-  const isSpeakingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Buffering Refs
-  const pendingChunksRef = useRef<Uint8Array[]>([]);
-  const pendingSizeRef = useRef(0);
-  const BUFFER_THRESHOLD = 48000; // ~1 second of audio (24kHz * 2 bytes * 1s)
-
-  // Queue Tracking
-  const enqueuedCountRef = useRef(0);
-  const processedCountRef = useRef(0);
-
-  const { startRecording: startNativeRecording, stopRecording: stopNativeRecording } = useAudioRecorder();
-
-  useEffect(() => {
-    const emitter = new LegacyEventEmitter(ExpoAudioStreamModule);
-    const subscription = emitter.addListener('AudioData', async (event: any) => {
-      if (wsRef.current?.readyState === WebSocket.OPEN && event.encoded) {
-        wsRef.current.send(JSON.stringify({
-          type: 'audio_chunk',
-          data: event.encoded,
-          timestamp: Date.now(),
-        }));
-      }
+const STATS_UPDATE_MS = 500;
+
+/** The shared LiveSession on native audio: expo-audio-studio capture and jitter-buffered playback. */
+export function useAudioConnection({
+  backendUrl = DEFAULT_BACKEND_URL,
+  onIntensityChange,
+  scenario = null,
+  saveAudio = false,
+  onSessionEnd,
+  jitterBuffer,
+  onCue,
+  muteCoachAudio = false,
+  pushToTalk = false,
+  inputFileUri = null,
+  fileSpeed = 1,
+  playFileLocally = false,
+}: UseAudioConnectionProps = {}) {
+  const [playbackStats, setPlaybackStats] = useState<JitterBufferStats | null>(null);
+  const [diagnostics, setDiagnostics] = useState<DiagnosticsSnapshot | null>(null);
+
+  // The recorder's functions are read when capture starts and stops
+  const recorder = useAudioRecorder();
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+
+  const micRef = useRef<NativeCapture | null>(null);
+  micRef.current ??= new NativeCapture({
+    startRecording: (config) => recorderRef.current.startRecording(config),
+    stopRecording: () => recorderRef.current.stopRecording(),
+  });
+  const mic = micRef.current;
+
+  const sessionRef = useRef<LiveSession | null>(null);
+  if (!sessionRef.current) {
+    sessionRef.current = new LiveSession({
+      capture: mic,
+      playback: new NativePlayback(jitterBuffer),
+      platform: Platform.OS,
     });
+  }
+  const session = sessionRef.current;
+  session.configure({ backendUrl, scenario, saveAudio, onSessionEnd, onCue, muteCoachAudio, pushToTalk });
+
+  const fileCapture = useMemo(
+    () => (__DEV__ && inputFileUri ? createFileCapture(inputFileUri, { speed: fileSpeed, playLocally: playFileLocally }) : null),
+    [inputFileUri, fileSpeed, playFileLocally]
+  );
+  useEffect(() => {
+    session.setCapture(fileCapture ?? mic);
+  }, [session, mic, fileCapture]);
 
-    return () => {
-      subscription.remove();
-    };
-  }, []);
-
-  const setupAudioContext = async () => {
-    try {
-      if (!audioContextRef.current) {
-        console.log('[Audio] Setting up new AudioContext');
-        audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-      }
-
-      const context = audioContextRef.current;
+  const state = useSyncExternalStore(session.subscribe, session.getState);
 
-      // Create BufferQueueSource if needed
-      if (!audioSourceRef.current && Platform.OS !== 'web') {
-        console.log('[Audio] Creating new BufferQueueSource');
-        // @ts-ignore
-        const source = context.createBufferQueueSource();
-        source.connect(context.destination);
+  // The coach's level while it speaks, otherwise the user's
+  const audioLevel = state.isSpeaking ? state.levels.playback : state.levels.mic;
 
-        source.onEnded = (event: any) => {
-          processedCountRef.current += 1;
-          const queueSize = enqueuedCountRef.current - processedCountRef.current;
-          if (queueSize % 5 === 0) {
-            console.log(`[Audio] Buffer finished. Processed: ${processedCountRef.current}, Queue Size: ${queueSize}`);
-          }
-        };
+  const onIntensityChangeRef = useRef(onIntensityChange);
+  onIntensityChangeRef.current = onIntensityChange;
+  useEffect(() => {
+    onIntensityChangeRef.current?.(audioLevel);
+  }, [audioLevel]);
 
-        audioSourceRef.current = source;
-        isSourceStartedRef.current = false;
-      }
-    } catch (e) {
-      console.error('[Audio] Error setting up AudioContext:', e);
-    }
-  };
+  // Publishes jitter buffer metrics and diagnostics while connected
+  useEffect(() => {
+    if (!state.isConnected) return;
+    const interval = setInterval(() => {
+      const snapshot = session.diagnosticsSnapshot();
+      setPlaybackStats(snapshot.playback ?? null);
+      setDiagnostics(snapshot);
+    }, STATS_UPDATE_MS);
+    return () => clearInterval(interval);
+  }, [session, state.isConnected]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       console.log('[Audio] Component unmounting, cleaning up');
-      if (audioSourceRef.current) {
-        try {
-          audioSourceRef.current.stop();
-          audioSourceRef.current.disconnect();
-        } catch (e) { console.warn('Error stopping source:', e); }
-        audioSourceRef.current = null;
-      }
-      if (audioContextRef.current) {
-        try {
-          audioContextRef.current.close();
-        } catch (e) { console.warn('Error closing context:', e); }
-        audioContextRef.current = null;
-      }
+      session.dispose();
     };
-  }, []);
-
-  const flushAudioBuffer = () => {
-    if (pendingChunksRef.current.length === 0) return;
-
-    // Ensure context and source exist
-    if (!audioContextRef.current || !audioSourceRef.current) {
-      return;
-    }
-
-    try {
-      const context = audioContextRef.current;
-      const source = audioSourceRef.current;
-
-      // Safety Check: Queue too large
-      const currentQueueSize = enqueuedCountRef.current - processedCountRef.current;
-      if (currentQueueSize > 50) {
-        console.warn('[Audio] Queue too large (>50), recreating source to prevent crash');
-        // Recreate source strategy
-        source.stop();
-        source.disconnect();
-        audioSourceRef.current = null;
-        isSourceStartedRef.current = false;
-        enqueuedCountRef.current = 0;
-        processedCountRef.current = 0;
-
-        pendingChunksRef.current = [];
-        pendingSizeRef.current = 0;
-        return;
-      }
-
-      // Combine chunks
-      const totalLength = pendingSizeRef.current;
-      const combinedBuffer = new Uint8Array(totalLength);
-      let offset = 0;
-      for (const chunk of pendingChunksRef.current) {
-        combinedBuffer.set(chunk, offset);
-        offset += chunk.length;
-      }
-
-      // Reset pending buffer
-      pendingChunksRef.current = [];
-      pendingSizeRef.current = 0;
-
-      // Convert Int16 PCM to Float32
-      const float32Data = new Float32Array(combinedBuffer.length / 2);
-      const dataView = new DataView(combinedBuffer.buffer);
-
-      for (let i = 0; i < float32Data.length; i++) {
-        const int16 = dataView.getInt16(i * 2, true);
-        float32Data[i] = int16 < 0 ? int16 / 32768 : int16 / 32767;
-      }
-
-      // Create AudioBuffer
-      const audioBuffer = context.createBuffer(1, float32Data.length, 24000);
-      audioBuffer.copyToChannel(float32Data, 0);
-
-      // Enqueue buffer
-      source.enqueueBuffer(audioBuffer);
-      enqueuedCountRef.current += 1;
-
-      const newQueueSize = enqueuedCountRef.current - processedCountRef.current;
-      console.log(`[Audio] Flushed buffer. Size: ${totalLength} bytes. Queue Size: ${newQueueSize}`);
-
-      // Start if not started
-      if (!isSourceStartedRef.current) {
-        source.start();
-        isSourceStartedRef.current = true;
-        console.log('[Audio] Source started');
-      }
-
-    } catch (e) {
-      console.error('Error flushing audio buffer:', e);
-    }
-  };
-
-  const playAudioChunk = async (base64Data: string) => {
-    try {
-      if (!audioContextRef.current || !audioSourceRef.current) {
-        await setupAudioContext();
-      }
-
-      const context = audioContextRef.current;
-      if (context?.state === 'suspended') {
-        await context.resume();
-      }
-
-      const byteArray = base64js.toByteArray(base64Data);
-
-      // Add to pending buffer
-      pendingChunksRef.current.push(byteArray);
-      pendingSizeRef.current += byteArray.length;
-
-      // Flush if threshold reached
-      if (pendingSizeRef.current >= BUFFER_THRESHOLD) {
-        flushAudioBuffer();
-      }
-
-    } catch (e) {
-      console.error('Error playing chunk:', e);
-    }
-  };
-
-  const connect = useCallback(async () => {
-    try {
-      setStatus('Connecting...');
-
-      const status = await ExpoAudioStreamModule.requestPermissionsAsync();
-      if (!status.granted) {
-        setStatus('Permission denied');
-        return;
-      }
-
-      // Initialize Audio Context
-      await setupAudioContext();
-
-      const ws = new WebSocket(BACKEND_URL);
-
-      ws.onopen = async () => {
-        console.log('Connected to WebSocket');
-        setIsConnected(true);
-        setStatus('Connected - Listening...');
-        wsRef.current = ws;
-
-        await startNativeRecording({
-          sampleRate: 16000,
-          channels: 1,
-          encoding: 'pcm_16bit',
-          // @ts-ignore
-          echoCancellation: true,
-          // @ts-ignore
-          autoGainControl: true,
-          // @ts-ignore
-          noiseSuppression: true,
-        });
-      };
-
-      ws.onmessage = async (event) => {
-        try {
-          const data = JSON.parse(event.data);
-
-          if (data.type === 'audio_response') {
-            setIsSpeaking(true);
-            isSpeakingRef.current = true;
-
-            if (isSpeakingTimeoutRef.current) {
-              clearTimeout(isSpeakingTimeoutRef.current);
-              isSpeakingTimeoutRef.current = null;
-            }
-
-            playAudioChunk(data.data);
-          } else if (data.type === 'transcription') {
-            setStatus(`Gemini: ${data.text}`);
-          } else if (data.type === 'turn_complete') {
-            // Flush any remaining audio
-            flushAudioBuffer();
-
-            isSpeakingRef.current = false;
-            setIsSpeaking(false);
-          } else if (data.type === 'interrupted') {
-            console.log('Received interruption signal');
-
-            // Recreate source on interruption to prevent memory leaks
-            if (audioSourceRef.current) {
-              try {
-                audioSourceRef.current.stop();
-                audioSourceRef.current.disconnect();
-              } catch (e) { console.warn('Error stopping source:', e); }
-              audioSourceRef.current = null;
-              isSourceStartedRef.current = false;
-            }
-
-            pendingChunksRef.current = [];
-            pendingSizeRef.current = 0;
-
-            enqueuedCountRef.current = 0;
-            processedCountRef.current = 0;
-
-            setIsSpeaking(false);
-            isSpeakingRef.current = false;
-            if (isSpeakingTimeoutRef.current) {
-              clearTimeout(isSpeakingTimeoutRef.current);
-              isSpeakingTimeoutRef.current = null;
-            }
-          }
-        } catch (e) {
-          console.error('Error parsing message:', e);
-        }
-      };
-
-      ws.onclose = async () => {
-        console.log('Disconnected');
-        setIsConnected(false);
-        setStatus('Disconnected');
-        wsRef.current = null;
-        setIsSpeaking(false);
-        isSpeakingRef.current = false;
-        if (isSpeakingTimeoutRef.current) clearTimeout(isSpeakingTimeoutRef.current);
-
-        try {
-          await stopNativeRecording();
-          // Don't close AudioContext here, keep it alive for reconnection speed
-          if (audioSourceRef.current) {
-            audioSourceRef.current.stop();
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
-            isSourceStartedRef.current = false;
-          }
-        } catch (e) {
-          console.log('Stop recording error (onclose):', e);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        setStatus('Connection error');
-        setIsConnected(false);
-      };
-
-    } catch (err) {
-      console.error('Connection error:', err);
-      setStatus('Error connecting');
-    }
-  }, [startNativeRecording, stopNativeRecording]);
-
-  const disconnect = useCallback(async () => {
-    if (wsRef.current) {
-      wsRef.current.close();
-    }
-    try {
-      await stopNativeRecording();
-      if (audioContextRef.current) {
-        await audioContextRef.current.close();
-        audioContextRef.current = null;
-        audioSourceRef.current = null;
-        isSourceStartedRef.current = false;
-      }
-    } catch (e) {
-      console.log('Stop recording error (likely not active):', e);
-    }
-    setIsConnected(false);
-    setStatus('Disconnected');
-    pendingChunksRef.current = [];
-    pendingSizeRef.current = 0;
-  }, [stopNativeRecording]);
+  }, [session]);
 
   return {
-    connect,
-    disconnect,
-    isConnected,
-    isSpeaking,
-    status,
-    audioLevel: 0, // Placeholder
+    connect: session.connect,
+    disconnect: session.disconnect,
+    startTalking: session.startTalking,
+    stopTalking: session.stopTalking,
+    askCoach: session.askCoach,
+    sendTextMessage: session.sendTextMessage,
+    phase: state.phase,
+    error: state.error,
+    isConnected: state.isConnected,
+    isReconnecting: state.isReconnecting,
+    isSpeaking: state.isSpeaking,
+    isEnding: state.isEnding,
+    isTalking: state.isTalking,
+    status: state.status,
+    cues: state.cues,
+    spokenCues: state.spokenCues,
+    turns: state.turns,
+    audioLevel,
+    micLevel: state.levels.mic,
+    playbackLevel: state.levels.playback,
+    playbackStats,
+    diagnostics,
+    exportDiagnostics: session.exportDiagnostics,
   };
 }
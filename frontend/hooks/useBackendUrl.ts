@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { Platform } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { DEFAULT_BACKEND_URL } from '@shared/backend';
+import { usePersistentState } from '@/hooks/usePersistentState';
+
+// The Android emulator reaches the host machine at 10.0.2.2; physical devices
+// need the computer's IP address on the same WiFi network, set in Settings
+const PLATFORM_DEFAULT_URL = Platform.select({
+  android: 'ws://10.0.2.2:8000/ws',
+  default: DEFAULT_BACKEND_URL,
+});
+
+/** The persisted backend WebSocket URL, re-read whenever the screen regains focus. */
+export function useBackendUrl() {
+  const [backendUrl, setBackendUrl, isLoaded, reload] = usePersistentState('backend-url.json', PLATFORM_DEFAULT_URL);
+
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  return { backendUrl, setBackendUrl, isLoaded, defaultUrl: PLATFORM_DEFAULT_URL };
+}
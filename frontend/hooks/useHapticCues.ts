@@ -0,0 +1,97 @@
+import { useCallback, useMemo } from 'react';
+import * as Haptics from 'expo-haptics';
+import { isCoachTool, type CoachTool } from '@shared/protocol';
+import { usePersistentState } from '@/hooks/usePersistentState';
+
+export type HapticPulse = 'short' | 'long';
+export type HapticPattern = HapticPulse[];
+
+// Patterns offered when configuring a technique; [] turns its vibration off
+export const HAPTIC_PATTERN_PRESETS: HapticPattern[] = [
+  [],
+  ['short'],
+  ['long'],
+  ['short', 'short'],
+  ['short', 'long'],
+  ['long', 'short'],
+  ['long', 'long'],
+  ['short', 'short', 'short'],
+];
+
+export const DEFAULT_HAPTIC_PATTERNS: Record<CoachTool, HapticPattern> = {
+  suggest_mirroring: ['short', 'short'],
+  suggest_labeling: ['short', 'long'],
+  suggest_tactical_empathy: ['long', 'short'],
+  suggest_calibrated_questions: ['short', 'short', 'short'],
+  suggest_effective_pauses: ['long'],
+  provide_real_time_feedback: ['short'],
+  summarize_negotiation: [],
+};
+
+export interface HapticCueSettings {
+  enabled: boolean;
+  // Skip playing the coach's voice while haptic cues are on
+  muteAudio: boolean;
+  patterns: Record<CoachTool, HapticPattern>;
+}
+
+const DEFAULT_SETTINGS: HapticCueSettings = {
+  enabled: false,
+  muteAudio: false,
+  patterns: DEFAULT_HAPTIC_PATTERNS,
+};
+
+const PULSE_GAP_MS = 180;
+// expo-haptics has no duration control, so a long pulse is a quick burst of heavy taps
+const LONG_PULSE_TAPS = 4;
+const LONG_PULSE_TAP_MS = 45;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function playHapticPattern(pattern: HapticPattern) {
+  try {
+    for (const [index, pulse] of pattern.entries()) {
+      if (index > 0) await wait(PULSE_GAP_MS);
+      if (pulse === 'short') {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        continue;
+      }
+      for (let tap = 0; tap < LONG_PULSE_TAPS; tap++) {
+        if (tap > 0) await wait(LONG_PULSE_TAP_MS);
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+      }
+    }
+  } catch (e) {
+    console.warn('[Haptics] Error playing pattern:', e);
+  }
+}
+
+/** "• •" for two short pulses, "—" for a long one. */
+export function formatHapticPattern(pattern: HapticPattern): string {
+  return pattern.length === 0 ? 'Off' : pattern.map((pulse) => (pulse === 'short' ? '•' : '—')).join(' ');
+}
+
+/** Persisted haptic cue mode: one vibration pattern per coaching technique. */
+export function useHapticCues() {
+  const [stored, setStored] = usePersistentState<HapticCueSettings>('haptic-cues.json', DEFAULT_SETTINGS);
+
+  // Techniques added after the file was written fall back to their defaults
+  const settings = useMemo<HapticCueSettings>(
+    () => ({ ...stored, patterns: { ...DEFAULT_HAPTIC_PATTERNS, ...stored.patterns } }),
+    [stored],
+  );
+
+  const update = useCallback((changes: Partial<Omit<HapticCueSettings, 'patterns'>>) => {
+    setStored((prev) => ({ ...prev, ...changes }));
+  }, [setStored]);
+
+  const setPattern = useCallback((tool: CoachTool, pattern: HapticPattern) => {
+    setStored((prev) => ({ ...prev, patterns: { ...DEFAULT_HAPTIC_PATTERNS, ...prev.patterns, [tool]: pattern } }));
+  }, [setStored]);
+
+  const playCue = useCallback((tool: string) => {
+    if (settings.enabled && isCoachTool(tool)) playHapticPattern(settings.patterns[tool]);
+  }, [settings]);
+
+  return { settings, update, setPattern, playCue };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { File, Paths } from 'expo-file-system';
+
+/**
+ * `useState` backed by a JSON file in the app's document directory.
+ * The file is read on mount (and on `reload`); every update rewrites it.
+ * An update made before the initial read finishes wins over the stored value.
+ */
+export function usePersistentState<T>(filename: string, initialValue: T) {
+  const [value, setValue] = useState<T>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const valueRef = useRef(value);
+  // Set by update, so a slow initial read doesn't overwrite what was just written
+  const hasWritten = useRef(false);
+
+  const readFile = useCallback(async (): Promise<T | undefined> => {
+    try {
+      const file = new File(Paths.document, filename);
+      if (file.exists) return JSON.parse(await file.text());
+    } catch (e) {
+      console.warn(`[Storage] Error reading ${filename}:`, e);
+    }
+    return undefined;
+  }, [filename]);
+
+  useEffect(() => {
+    let cancelled = false;
+    readFile().then((stored) => {
+      if (cancelled) return;
+      if (stored !== undefined && !hasWritten.current) {
+        valueRef.current = stored;
+        setValue(stored);
+      }
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [readFile]);
+
+  // Picks up changes written by another screen, e.g. when this one regains focus
+  const reload = useCallback(async () => {
+    const stored = await readFile();
+    if (stored !== undefined) {
+      valueRef.current = stored;
+      setValue(stored);
+    }
+  }, [readFile]);
+
+  // Writes synchronously so a screen opened right after the update reads the new file
+  const update = useCallback((next: T | ((prev: T) => T)) => {
+    const resolved = typeof next === 'function' ? (next as (prev: T) => T)(valueRef.current) : next;
+    valueRef.current = resolved;
+    hasWritten.current = true;
+    try {
+      const file = new File(Paths.document, filename);
+      if (!file.exists) file.create();
+      file.write(JSON.stringify(resolved));
+    } catch (e) {
+      console.warn(`[Storage] Error writing ${filename}:`, e);
+    }
+    setValue(resolved);
+  }, [filename]);
+
+  return [value, update, isLoaded, reload] as const;
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const TICK_MS = 100;
+
+/**
+ * Playback clock for replaying a recorded session. `onStart` is called with the
+ * position every time playback (re)starts so audio can be scheduled from there.
+ */
+export function useReplay(durationMs: number, onStart?: (positionMs: number) => void, onStop?: () => void) {
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const anchorRef = useRef({ startedAt: 0, from: 0 });
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+    onStop?.();
+  }, [onStop]);
+
+  const play = useCallback((from?: number) => {
+    const start = from ?? (positionMs >= durationMs ? 0 : positionMs);
+    anchorRef.current = { startedAt: Date.now(), from: start };
+    setPositionMs(start);
+    setIsPlaying(true);
+    onStart?.(start);
+  }, [positionMs, durationMs, onStart]);
+
+  const seek = useCallback((to: number) => {
+    const clamped = Math.max(0, Math.min(durationMs, to));
+    if (isPlaying) {
+      onStop?.();
+      play(clamped);
+    } else {
+      setPositionMs(clamped);
+    }
+  }, [durationMs, isPlaying, onStop, play]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      const next = anchorRef.current.from + (Date.now() - anchorRef.current.startedAt);
+      if (next >= durationMs) {
+        setPositionMs(durationMs);
+        pause();
+      } else {
+        setPositionMs(next);
+      }
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, durationMs, pause]);
+
+  return { positionMs, isPlaying, play, pause, seek };
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Directory, File, Paths } from 'expo-file-system';
+import { MAX_SESSIONS, type AudioChunkRecord, type SessionRecord } from '@shared/sessions';
+import { recordingBaseName, recordingToJson, recordingToWav, recordingToWebVtt } from '@shared/recording';
+
+// One `<id>.json` per session plus an optional `<id>-audio.json`, so listing
+// sessions never reads the (large) audio files
+const sessionsDirectory = () => new Directory(Paths.document, 'sessions');
+const sessionFile = (id: string) => new File(sessionsDirectory(), `${id}.json`);
+const audioFile = (id: string) => new File(sessionsDirectory(), `${id}-audio.json`);
+
+function writeJson(file: File, value: unknown) {
+  if (!file.exists) file.create();
+  file.write(JSON.stringify(value));
+}
+
+function deleteSessionFiles(id: string) {
+  for (const file of [sessionFile(id), audioFile(id)]) {
+    if (file.exists) file.delete();
+  }
+}
+
+export async function loadSessionAudio(id: string): Promise<AudioChunkRecord[] | null> {
+  const file = audioFile(id);
+  return file.exists ? JSON.parse(await file.text()) : null;
+}
+
+/**
+ * Writes the session's stereo WAV (you left, coach right) with WebVTT and JSON
+ * sidecars to the cache directory, replacing any earlier export.
+ */
+export function exportSessionRecording(session: SessionRecord, audio: AudioChunkRecord[]): File[] {
+  const directory = new Directory(Paths.cache, 'recordings');
+  if (!directory.exists) directory.create();
+  const name = recordingBaseName(session);
+  const contents: [string, string | Uint8Array][] = [
+    [`${name}.wav`, recordingToWav(session, audio)],
+    [`${name}.vtt`, recordingToWebVtt(session)],
+    [`${name}.json`, recordingToJson(session)],
+  ];
+  return contents.map(([filename, content]) => {
+    const file = new File(directory, filename);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(content);
+    return file;
+  });
+}
+
+/** Past sessions from the document directory, newest first. */
+export function useSessionHistory() {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const directory = sessionsDirectory();
+      if (!directory.exists) directory.create();
+
+      const files = directory
+        .list()
+        .filter((entry): entry is File => entry instanceof File && !entry.name.endsWith('-audio.json'));
+      const loaded: SessionRecord[] = await Promise.all(files.map(async (file) => JSON.parse(await file.text())));
+      setSessions(loaded.sort((a, b) => b.startedAt - a.startedAt));
+    } catch (e) {
+      console.warn('[History] Error loading sessions:', e);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveSession = useCallback(async (session: SessionRecord, audio: AudioChunkRecord[]) => {
+    try {
+      const directory = sessionsDirectory();
+      if (!directory.exists) directory.create();
+      writeJson(sessionFile(session.id), session);
+      if (audio.length > 0) writeJson(audioFile(session.id), audio);
+
+      const expired = [session, ...sessions.filter(s => s.id !== session.id)].slice(MAX_SESSIONS);
+      expired.forEach(old => deleteSessionFiles(old.id));
+    } catch (e) {
+      console.warn('[History] Error saving session:', e);
+    }
+    await refresh();
+  }, [sessions, refresh]);
+
+  const removeSession = useCallback(async (id: string) => {
+    try {
+      deleteSessionFiles(id);
+    } catch (e) {
+      console.warn('[History] Error deleting session:', e);
+    }
+    await refresh();
+  }, [refresh]);
+
+  return { sessions, isLoaded, saveSession, removeSession, refresh };
+}
@@ -1,6 +1,10 @@
+const path = require('path');
 const { getDefaultConfig } = require('expo/metro-config');
 const { wrapWithAudioAPIMetroConfig } = require('react-native-audio-api/metro-config');
 
 const config = getDefaultConfig(__dirname);
 
+// Code shared with the web client lives outside the project root (../shared)
+config.watchFolders = [...(config.watchFolders ?? []), path.resolve(__dirname, '../shared')];
+
 module.exports = wrapWithAudioAPIMetroConfig(config);
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { after, before, mock, test } from 'node:test';
+import { WebSocket } from 'ws';
+import { LiveSession, type CaptureAdapter, type LiveSessionState, type PlaybackAdapter } from '@shared/liveSession';
+import type { SessionRecord } from '@shared/sessions';
+import { MOCK_SUMMARY_ARGS } from '../src/scenarios';
+import { startMockServer, type MockServer } from '../src/server';
+
+// The clients' LiveSession, run in Node against the mock over a real socket
+
+class FakeCapture implements CaptureAdapter {
+  onChunk: ((pcm: Uint8Array) => void) | null = null;
+  async prepare() {
+    return true;
+  }
+  async start(onChunk: (pcm: Uint8Array) => void) {
+    this.onChunk = onChunk;
+  }
+  async stop() {
+    this.onChunk = null;
+  }
+}
+
+class FakePlayback implements PlaybackAdapter {
+  received = 0;
+  queuedMs = 0;
+  async prepare() {}
+  enqueue(pcm: Uint8Array) {
+    this.received += pcm.byteLength;
+  }
+  flush() {}
+  stop() {}
+  async close() {}
+}
+
+let server: MockServer;
+
+before(async () => {
+  (globalThis as { WebSocket?: unknown }).WebSocket = WebSocket;
+  mock.method(console, 'log', () => {});
+  server = await startMockServer({ port: 0, host: '127.0.0.1', scenario: 'coach', speed: 10 });
+});
+
+after(() => server.close());
+
+/** Resolves once `predicate` holds for the session state. */
+function waitFor(session: LiveSession, predicate: (state: LiveSessionState) => boolean, timeoutMs = 5000) {
+  return new Promise<LiveSessionState>((resolve, reject) => {
+    const check = () => {
+      if (!predicate(session.getState())) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(session.getState());
+    };
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out in phase ${session.getState().phase}: ${session.getState().status}`));
+    }, timeoutMs);
+    const unsubscribe = session.subscribe(check);
+    check();
+  });
+}
+
+test('a LiveSession streams audio, gets cues and a debrief from the coach scenario', async () => {
+  const capture = new FakeCapture();
+  const playback = new FakePlayback();
+  let saved: SessionRecord | null = null;
+  const session = new LiveSession(
+    { capture, playback, platform: 'test' },
+    { backendUrl: server.url, onSessionEnd: (record) => (saved = record) }
+  );
+
+  await session.connect();
+  await waitFor(session, (state) => state.phase === 'streaming');
+  capture.onChunk?.(new Uint8Array(3200));
+
+  const { cues, spokenCues } = await waitFor(session, (state) => state.spokenCues.length > 0 && state.cues.length > 0);
+  assert.equal(cues[0].tool, 'suggest_mirroring');
+  assert.equal(spokenCues[0].toolCueId, cues[0].id);
+
+  const debrief = await session.disconnect();
+  assert.equal(debrief?.finalTerms, MOCK_SUMMARY_ARGS.final_terms);
+  // The record is saved once the socket has closed
+  await waitFor(session, (state) => state.phase === 'idle');
+  assert.equal(saved!.cues[0].tool, 'suggest_mirroring');
+  assert.ok(playback.received > 0, 'coach audio was played');
+
+  const [recorded] = server.sessions;
+  assert.deepEqual(recorded.start, { type: 'start_session', scenario: null, resume_handle: null, binary_audio: true });
+  assert.ok(recorded.binaryAudio);
+  const audio = recorded.received.filter((entry) => entry.kind === 'audio');
+  assert.equal(audio.length, 1);
+  assert.equal(audio[0].kind === 'audio' && audio[0].sampleRate, 16000);
+  assert.ok(recorded.received.some((entry) => entry.kind === 'json' && entry.message.type === 'request_summary'));
+  assert.ok(!recorded.received.some((entry) => entry.kind === 'invalid'));
+});
@@ -0,0 +1,35 @@
+/**
+ * Synthetic "speech" for scripted replies: a voiced tone whose loudness rises
+ * and falls like syllables, so level meters and the orb move the way they do
+ * with real Gemini audio.
+ */
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+export const CHUNK_MS = 40;
+
+const SYLLABLES_PER_SECOND = 4;
+const PEAK_AMPLITUDE = 0.3 * 0x7fff;
+
+/** PCM16 mono samples, as sent in `audio_response`. */
+export function synthesizeSpeech(durationMs: number, pitchHz = 180, sampleRate = OUTPUT_SAMPLE_RATE): Int16Array {
+  const samples = new Int16Array(Math.round((durationMs / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    // Fundamental plus two harmonics, gated by a syllable envelope
+    const voice = Math.sin(2 * Math.PI * pitchHz * t) + 0.5 * Math.sin(4 * Math.PI * pitchHz * t) + 0.25 * Math.sin(6 * Math.PI * pitchHz * t);
+    const envelope = Math.max(0, Math.sin(Math.PI * SYLLABLES_PER_SECOND * t)) ** 2;
+    samples[i] = Math.round((voice / 1.75) * envelope * PEAK_AMPLITUDE);
+  }
+  return samples;
+}
+
+/** Splits `samples` into `chunkMs` slices, the size Gemini streams audio in. */
+export function chunkPcm(samples: Int16Array, chunkMs = CHUNK_MS, sampleRate = OUTPUT_SAMPLE_RATE): Uint8Array[] {
+  const chunkSamples = Math.round((chunkMs / 1000) * sampleRate);
+  const chunks: Uint8Array[] = [];
+  for (let start = 0; start < samples.length; start += chunkSamples) {
+    const slice = samples.subarray(start, start + chunkSamples);
+    chunks.push(new Uint8Array(slice.buffer, slice.byteOffset, slice.byteLength));
+  }
+  return chunks;
+}
@@ -0,0 +1,82 @@
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { MOCK_SCENARIOS } from './scenarios';
+import { DEFAULT_PORT, startMockServer, type MockSession, type RecordedClientMessage } from './server';
+
+const USAGE = `Usage: npm start -- [options]
+
+  --port <port>        Port to listen on (default ${DEFAULT_PORT})
+  --scenario <name>    Default scenario (default coach); clients can pick one with /ws?scenario=<name>
+  --speed <factor>     Play scripts this many times faster (default 1)
+  --no-api-key         Report api_key_configured: false from /health
+  --record <file>      Write what clients sent to <file> as JSON on exit
+  --list               List the scenarios and exit`;
+
+// Audio payloads are summarized by size so the recording stays readable
+function recordable(entry: RecordedClientMessage) {
+  if (entry.kind === 'audio') {
+    return { at: entry.at, kind: entry.kind, sampleRate: entry.sampleRate, timestamp: entry.timestamp, bytes: entry.pcm.byteLength };
+  }
+  if (entry.kind === 'json' && entry.message.type === 'audio_chunk') {
+    return { at: entry.at, kind: entry.kind, message: { ...entry.message, data: `<${entry.message.data.length} base64 chars>` } };
+  }
+  return entry;
+}
+
+function summarize(session: MockSession) {
+  const counts: Record<string, number> = {};
+  for (const entry of session.received) {
+    const key = entry.kind === 'json' ? entry.message.type : `${entry.kind} frame`;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return Object.entries(counts).map(([key, count]) => `${key} x${count}`).join(', ') || 'nothing';
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      scenario: { type: 'string', default: 'coach' },
+      speed: { type: 'string', default: '1' },
+      'no-api-key': { type: 'boolean', default: false },
+      record: { type: 'string' },
+      list: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.list) {
+    for (const scenario of MOCK_SCENARIOS) console.log(`${scenario.name.padEnd(10)} ${scenario.description}`);
+    return;
+  }
+
+  const server = await startMockServer({
+    port: Number(values.port),
+    scenario: values.scenario,
+    speed: Number(values.speed),
+    apiKeyConfigured: !values['no-api-key'],
+    log: (line) => console.log(`[mock] ${line}`),
+  });
+  console.log(`[mock] Listening on ${server.url} (scenario "${values.scenario}") - Ctrl+C to stop`);
+
+  process.once('SIGINT', async () => {
+    await server.close();
+    for (const session of server.sessions) {
+      console.log(`[mock] session ${session.id} (${session.scenario}): ${summarize(session)}`);
+    }
+    if (values.record) {
+      const sessions = server.sessions.map((session) => ({ ...session, received: session.received.map(recordable) }));
+      writeFileSync(values.record, JSON.stringify(sessions, null, 2));
+      console.log(`[mock] Recorded ${sessions.length} sessions to ${values.record}`);
+    }
+  });
+}
+
+main().catch((e) => {
+  console.error(`[mock] ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+import type {
+  CoachTool,
+  ErrorMessage,
+  InterruptedMessage,
+  SessionResumptionMessage,
+  ToolCallMessage,
+  TranscriptionMessage,
+  TurnCompleteMessage,
+} from '@shared/protocol';
+
+/** Server messages a script can send as-is; audio and `connected` come from the server itself. */
+export type ScriptedMessage =
+  | TranscriptionMessage
+  | TurnCompleteMessage
+  | InterruptedMessage
+  | ToolCallMessage
+  | SessionResumptionMessage
+  | ErrorMessage;
+
+/**
+ * One step of a script; `at` is milliseconds after the script starts.
+ *
+ * - `speech`: synthetic `audio_response` audio for `durationMs`, with `text`
+ *   sent word by word as `transcription`, then `turn_complete`. A scripted
+ *   `interrupted` cuts off whatever is still being spoken.
+ * - `message`: a server message sent verbatim.
+ * - `close`: ends the connection; `abrupt` drops it without a close frame,
+ *   like a network failure, so clients try to reconnect.
+ */
+export type MockEvent =
+  | { at: number; type: 'speech'; text: string; durationMs?: number }
+  | { at: number; type: 'message'; message: ScriptedMessage }
+  | { at: number; type: 'close'; abrupt?: boolean };
+
+export type ReplyTrigger = 'end_of_turn' | 'text_message' | 'request_summary';
+
+export interface MockScenario {
+  name: string;
+  description: string;
+  // Played once after `connected`
+  timeline: MockEvent[];
+  // Played instead of `timeline` when the client resumes with a `resume_handle`
+  resumed?: MockEvent[];
+  // Played each time the client sends the message; defaults to DEFAULT_REPLIES
+  replies?: Partial<Record<ReplyTrigger, MockEvent[]>>;
+}
+
+const cue = (at: number, tool: CoachTool, text: string, durationMs?: number): MockEvent[] => [
+  { at, type: 'message', message: { type: 'tool_call', tool, args: null } },
+  { at: at + 100, type: 'speech', text, durationMs },
+];
+
+export const MOCK_SUMMARY_ARGS = {
+  key_points: ['Counterpart opened at 35k', 'User anchored on market data'],
+  concessions: ['Counterpart moved to 38k'],
+  missed_opportunities: ['Could have labeled the budget pressure earlier'],
+  final_terms: '38k with a review in six months',
+};
+
+export const DEFAULT_REPLIES: Record<ReplyTrigger, MockEvent[]> = {
+  end_of_turn: cue(300, 'suggest_calibrated_questions', 'Ask, how am I supposed to do that?'),
+  text_message: cue(400, 'provide_real_time_feedback', 'Empathy, I understand your position.'),
+  request_summary: [
+    { at: 500, type: 'message', message: { type: 'tool_call', tool: 'summarize_negotiation', args: MOCK_SUMMARY_ARGS } },
+  ],
+};
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  {
+    name: 'coach',
+    description: 'Live coach: a spoken cue with its tool call every few seconds',
+    timeline: [
+      ...cue(1500, 'suggest_mirroring', 'Mirror, fair price?', 1200),
+      ...cue(6000, 'suggest_labeling', 'Label, it seems like the budget is tight.', 2000),
+      ...cue(11000, 'suggest_calibrated_questions', 'Ask, what makes you say that?', 1800),
+      ...cue(16000, 'suggest_effective_pauses', 'Pause.', 500),
+      ...cue(21000, 'suggest_tactical_empathy', 'Empathy, I understand your position.', 1800),
+    ],
+  },
+  {
+    name: 'interrupt',
+    description: 'A long reply that Gemini interrupts halfway through',
+    timeline: [
+      ...cue(1000, 'provide_real_time_feedback', 'Slow down and let them finish their offer before you respond to it.', 4000),
+      { at: 3000, type: 'message', message: { type: 'interrupted' } },
+      ...cue(4500, 'suggest_mirroring', 'Mirror, final offer?', 1200),
+    ],
+  },
+  {
+    name: 'error',
+    description: 'The Gemini session fails right after connecting',
+    timeline: [
+      { at: 500, type: 'message', message: { type: 'error', message: 'Mock: Gemini session closed unexpectedly' } },
+      { at: 600, type: 'close' },
+    ],
+  },
+  {
+    name: 'drop',
+    description: 'The connection drops after a few seconds and resumes from the last handle',
+    timeline: [
+      { at: 200, type: 'message', message: { type: 'session_resumption', handle: 'mock-handle-1' } },
+      ...cue(1000, 'suggest_mirroring', 'Mirror, fair price?', 1200),
+      { at: 4000, type: 'close', abrupt: true },
+    ],
+    resumed: [
+      { at: 200, type: 'message', message: { type: 'session_resumption', handle: 'mock-handle-2' } },
+      ...cue(1000, 'suggest_labeling', 'Label, it seems like you are under pressure.', 2000),
+    ],
+  },
+  {
+    name: 'silent',
+    description: 'Says nothing until the client ends a turn, types or asks for the summary',
+    timeline: [],
+  },
+];
+
+export function findScenario(name: string): MockScenario | undefined {
+  return MOCK_SCENARIOS.find((scenario) => scenario.name === name);
+}
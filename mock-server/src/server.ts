@@ -0,0 +1,304 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import {
+  PROTOCOL_VERSION,
+  decodeAudioFrame,
+  encodeAudioFrame,
+  type ClientMessage,
+  type ServerMessage,
+  type StartSessionMessage,
+} from '@shared/protocol';
+import { bytesToBase64 } from '@shared/pcm';
+import { CHUNK_MS, OUTPUT_SAMPLE_RATE, chunkPcm, synthesizeSpeech } from './audio';
+import { DEFAULT_REPLIES, MOCK_SCENARIOS, findScenario, type MockEvent, type MockScenario, type ReplyTrigger } from './scenarios';
+
+export const DEFAULT_PORT = 8000;
+
+// Same as SESSION_START_TIMEOUT in server/main.py
+const SESSION_START_TIMEOUT_MS = 5000;
+// Speaking rate used when a speech event has no durationMs
+const SPEECH_MS_PER_CHAR = 60;
+const MIN_SPEECH_MS = 500;
+
+export interface MockServerOptions {
+  // 0 picks a free port
+  port?: number;
+  host?: string;
+  // Default scenario; a client can pick another with `/ws?scenario=<name>`
+  scenario?: string | MockScenario;
+  // Plays every script this many times faster, e.g. for tests
+  speed?: number;
+  apiKeyConfigured?: boolean;
+  log?: (line: string) => void;
+}
+
+/** Everything a client sent, in order; `at` is ms since the connection opened. */
+export type RecordedClientMessage =
+  | { at: number; kind: 'json'; message: ClientMessage }
+  | { at: number; kind: 'audio'; sampleRate: number; timestamp: number; pcm: Uint8Array }
+  | { at: number; kind: 'invalid'; error: string };
+
+export interface MockSession {
+  id: number;
+  scenario: string;
+  openedAt: number;
+  // null when the client never sent start_session (pre-v2 clients)
+  start: StartSessionMessage | null;
+  binaryAudio: boolean;
+  received: RecordedClientMessage[];
+  closed: boolean;
+}
+
+export interface MockServer {
+  port: number;
+  // WebSocket URL clients connect to
+  url: string;
+  sessions: MockSession[];
+  close: () => Promise<void>;
+}
+
+const REPLY_TRIGGERS: ReplyTrigger[] = ['end_of_turn', 'text_message', 'request_summary'];
+
+const isReplyTrigger = (type: string): type is ReplyTrigger => (REPLY_TRIGGERS as string[]).includes(type);
+
+function toArrayBuffer(data: RawData): ArrayBuffer {
+  const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function parseClientMessage(raw: string): ClientMessage {
+  const payload: unknown = JSON.parse(raw);
+  if (typeof payload !== 'object' || payload === null || typeof (payload as { type?: unknown }).type !== 'string') {
+    throw new Error('Message has no type');
+  }
+  return payload as ClientMessage;
+}
+
+/** Plays one scenario to one client and records what it sends. */
+class MockConnection {
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  // Audio, transcription and turn_complete still to come for the current reply
+  private readonly speechTimers = new Set<ReturnType<typeof setTimeout>>();
+  private startTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly ws: WebSocket,
+    private readonly session: MockSession,
+    private readonly scenario: MockScenario,
+    private readonly speed: number,
+    private readonly log: (line: string) => void
+  ) {
+    ws.on('message', (data, isBinary) => this.receive(data, isBinary));
+    ws.on('close', () => this.closed());
+    this.startTimer = setTimeout(() => this.begin(null), SESSION_START_TIMEOUT_MS);
+  }
+
+  private get elapsed() {
+    return Date.now() - this.session.openedAt;
+  }
+
+  private receive(data: RawData, isBinary: boolean) {
+    if (isBinary) {
+      try {
+        const frame = decodeAudioFrame(toArrayBuffer(data));
+        this.session.received.push({ at: this.elapsed, kind: 'audio', sampleRate: frame.sampleRate, timestamp: frame.timestamp, pcm: frame.pcm });
+      } catch (e) {
+        this.session.received.push({ at: this.elapsed, kind: 'invalid', error: String(e) });
+      }
+      if (this.startTimer) this.begin(null);
+      return;
+    }
+
+    let message: ClientMessage;
+    try {
+      message = parseClientMessage(data.toString());
+    } catch (e) {
+      this.session.received.push({ at: this.elapsed, kind: 'invalid', error: String(e) });
+      if (this.startTimer) this.begin(null);
+      return;
+    }
+    this.session.received.push({ at: this.elapsed, kind: 'json', message });
+    if (message.type !== 'audio_chunk') this.log(`[session ${this.session.id}] client sent ${message.type}`);
+
+    if (this.startTimer) {
+      // Like the real server, a first message other than start_session is handled as usual after starting
+      this.begin(message.type === 'start_session' ? message : null);
+      if (message.type === 'start_session') return;
+    }
+    if (isReplyTrigger(message.type)) {
+      this.play(this.scenario.replies?.[message.type] ?? DEFAULT_REPLIES[message.type]);
+    } else if (message.type === 'stop') {
+      this.ws.close(1000);
+    }
+  }
+
+  private begin(start: StartSessionMessage | null) {
+    if (this.startTimer) clearTimeout(this.startTimer);
+    this.startTimer = null;
+    this.session.start = start;
+    this.session.binaryAudio = Boolean(start?.binary_audio);
+    this.send({
+      type: 'connected',
+      message: `Connected to the mock server (${this.scenario.name})`,
+      protocol_version: PROTOCOL_VERSION,
+      binary_audio: this.session.binaryAudio,
+    });
+    const resuming = Boolean(start?.resume_handle) && this.scenario.resumed !== undefined;
+    this.log(`[session ${this.session.id}] ${resuming ? 'resumed' : 'started'} "${this.scenario.name}"`);
+    this.play(resuming ? this.scenario.resumed! : this.scenario.timeline);
+  }
+
+  private play(events: MockEvent[]) {
+    for (const event of events) {
+      this.schedule(this.timers, event.at, () => this.run(event));
+    }
+  }
+
+  private schedule(group: Set<ReturnType<typeof setTimeout>>, delayMs: number, action: () => void) {
+    const timer = setTimeout(() => {
+      group.delete(timer);
+      action();
+    }, delayMs / this.speed);
+    group.add(timer);
+  }
+
+  private run(event: MockEvent) {
+    switch (event.type) {
+      case 'speech':
+        this.speak(event.text, event.durationMs ?? Math.max(MIN_SPEECH_MS, event.text.length * SPEECH_MS_PER_CHAR));
+        break;
+      case 'message':
+        if (event.message.type === 'interrupted') this.cancelSpeech();
+        this.send(event.message);
+        break;
+      case 'close':
+        if (event.abrupt) this.ws.terminate();
+        else this.ws.close(1000);
+        break;
+    }
+  }
+
+  private speak(text: string, durationMs: number) {
+    chunkPcm(synthesizeSpeech(durationMs)).forEach((pcm, index) => {
+      this.schedule(this.speechTimers, index * CHUNK_MS, () => this.sendAudio(pcm));
+    });
+    const words = text.split(/\s+/).filter(Boolean);
+    words.forEach((word, index) => {
+      this.schedule(this.speechTimers, (index / words.length) * durationMs, () =>
+        this.send({ type: 'transcription', text: index === 0 ? word : ` ${word}` })
+      );
+    });
+    this.schedule(this.speechTimers, durationMs, () => this.send({ type: 'turn_complete' }));
+  }
+
+  private cancelSpeech() {
+    this.speechTimers.forEach(clearTimeout);
+    this.speechTimers.clear();
+  }
+
+  private sendAudio(pcm: Uint8Array) {
+    if (this.session.binaryAudio) {
+      if (this.ws.readyState === this.ws.OPEN) this.ws.send(encodeAudioFrame('audio_response', pcm, OUTPUT_SAMPLE_RATE));
+      return;
+    }
+    this.send({ type: 'audio_response', data: bytesToBase64(pcm) });
+  }
+
+  private send(message: ServerMessage) {
+    if (this.ws.readyState === this.ws.OPEN) this.ws.send(JSON.stringify(message));
+  }
+
+  private closed() {
+    if (this.startTimer) clearTimeout(this.startTimer);
+    this.timers.forEach(clearTimeout);
+    this.cancelSpeech();
+    this.session.closed = true;
+    this.log(`[session ${this.session.id}] closed after ${(this.elapsed / 1000).toFixed(1)}s`);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // Matches the CORS middleware on the real server, so the web client can call /health
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts a stand-in for `server/main.py`: `GET /health` and the `/ws`
+ * protocol, answering with scripted scenarios instead of Gemini.
+ */
+export function startMockServer({
+  port = DEFAULT_PORT,
+  host = '0.0.0.0',
+  scenario = 'coach',
+  speed = 1,
+  apiKeyConfigured = true,
+  log = () => {},
+}: MockServerOptions = {}): Promise<MockServer> {
+  const defaultScenario = typeof scenario === 'string' ? findScenario(scenario) : scenario;
+  if (!defaultScenario) {
+    return Promise.reject(
+      new Error(`Unknown scenario "${scenario}"; expected one of ${MOCK_SCENARIOS.map((s) => s.name).join(', ')}`)
+    );
+  }
+
+  const sessions: MockSession[] = [];
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { status: 'healthy', api_key_configured: apiKeyConfigured, timestamp: new Date().toISOString() });
+      return;
+    }
+    sendJson(res, 404, { detail: 'Not Found' });
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/ws') {
+      socket.destroy();
+      return;
+    }
+    const requested = url.searchParams.get('scenario');
+    const connectionScenario = (requested && findScenario(requested)) || defaultScenario;
+    if (requested && connectionScenario.name !== requested) log(`Unknown scenario "${requested}", using "${connectionScenario.name}"`);
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const session: MockSession = {
+        id: sessions.length + 1,
+        scenario: connectionScenario.name,
+        openedAt: Date.now(),
+        start: null,
+        binaryAudio: false,
+        received: [],
+        closed: false,
+      };
+      sessions.push(session);
+      log(`[session ${session.id}] connection from ${req.socket.remoteAddress}`);
+      new MockConnection(ws, session, connectionScenario, speed, log);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      resolve({
+        port: boundPort,
+        url: `ws://localhost:${boundPort}/ws`,
+        sessions,
+        close: () =>
+          new Promise<void>((done) => {
+            wss.clients.forEach((client) => client.terminate());
+            wss.close();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -11,7 +11,10 @@ import base64
 import json
 import os
 import logging
+import struct
+import time
 from datetime import datetime
+from typing import Optional
 
 from fastapi import FastAPI, WebSocket, WebSocketDisconnect
 from fastapi.middleware.cors import CORSMiddleware
@@ -55,6 +58,14 @@ if not GOOGLE_API_KEY:
 MODEL = "gemini-2.5-flash-native-audio-preview-12-2025"
 SAMPLE_RATE = 16000  # Input audio sample rate
 OUTPUT_SAMPLE_RATE = 24000  # Output audio sample rate
+PROTOCOL_VERSION = 5  # Keep in sync with shared/protocol.ts
+SESSION_START_TIMEOUT = 5  # Seconds to wait for the client's start_session message
+
+# Binary audio frames (see encodeAudioFrame in shared/protocol.ts):
+# frame type, reserved, sample rate, timestamp in ms, then raw PCM16
+AUDIO_FRAME_HEADER = struct.Struct("<BBHd")
+AUDIO_CHUNK_FRAME = 1
+AUDIO_RESPONSE_FRAME = 2
 
 # Initialize Gemini client
 client = genai.Client(api_key=GOOGLE_API_KEY)
@@ -87,6 +98,32 @@ Key Techniques to Watch For and Suggest:
 
 Always stay calm, supportive, and focused on the user's success. Your output should be short and directive so the user can listen and act while negotiating."""
 
+PRACTICE_INSTRUCTION = """You are role-playing the counterpart in a negotiation practice session. The user is rehearsing so they can negotiate better in real life.
+
+Your role: {role}
+Your objective: {objective}
+
+{prompt}
+
+Stay in character and speak directly to the user as the counterpart. Never mention that you are an AI or a coach.
+
+While you play the counterpart, also track how the user is negotiating. Whenever the user could apply a technique from "Never Split the Difference" (Mirroring, Labeling, Tactical Empathy, Calibrated Questions, Effective Pauses), call the corresponding tool (e.g., `suggest_mirroring`, `suggest_labeling`) so the app can show the suggestion on screen. Do not say these suggestions out loud."""
+
+
+def build_system_instruction(scenario: Optional[dict]) -> str:
+    """Return the coach instruction, or the counterpart instruction for a practice scenario."""
+    if not scenario:
+        return SYSTEM_INSTRUCTION
+    return PRACTICE_INSTRUCTION.format(
+        role=scenario.get("role", "Counterpart"),
+        objective=scenario.get("objective", ""),
+        prompt=scenario.get("prompt", ""),
+    )
+
+
+SUMMARY_REQUEST = """The negotiation has ended. Call `summarize_negotiation` now with the key points, the concessions made by each side, the missed opportunities to apply a technique, and the final agreed terms. Do not say anything out loud."""
+
+
 # Tool definitions
 TOOLS = [
     {"function_declarations": [
@@ -123,7 +160,31 @@ TOOLS = [
         {
             "name": "summarize_negotiation",
             "description": "Summarizes the key points and outcomes of the negotiation for post-negotiation analysis.",
-            "behavior": "NON_BLOCKING"
+            "behavior": "NON_BLOCKING",
+            "parameters": {
+                "type": "OBJECT",
+                "properties": {
+                    "key_points": {
+                        "type": "ARRAY",
+                        "items": {"type": "STRING"},
+                        "description": "The most important moments and arguments of the negotiation."
+                    },
+                    "concessions": {
+                        "type": "ARRAY",
+                        "items": {"type": "STRING"},
+                        "description": "Concessions made by the user or the counterpart."
+                    },
+                    "missed_opportunities": {
+                        "type": "ARRAY",
+                        "items": {"type": "STRING"},
+                        "description": "Moments where the user could have applied a technique but did not."
+                    },
+                    "final_terms": {
+                        "type": "STRING",
+                        "description": "The final agreed terms, or that no agreement was reached."
+                    }
+                }
+            }
         }
     ]}
 ]
@@ -137,17 +198,24 @@ class GeminiSession:
         self.session_manager = None
         self.is_active = False
         self.receive_task = None
+        self.binary_audio = False
         
-    async def connect(self):
+    async def connect(self, scenario: Optional[dict] = None, resume_handle: Optional[str] = None, binary_audio: bool = False):
         """Connect to Gemini Live API using the official SDK."""
         try:
             logger.info(f"Connecting to Gemini model: {MODEL}")
+            if scenario:
+                logger.info(f"Practice scenario: {scenario.get('title')} ({scenario.get('role')})")
+            if resume_handle:
+                logger.info("Resuming previous Gemini session")
             
             # Configure the session
             config = types.LiveConnectConfig(
                 response_modalities=["AUDIO"],
                 tools=TOOLS,
-                system_instruction=types.Content(parts=[types.Part(text=SYSTEM_INSTRUCTION)]),
+                system_instruction=types.Content(parts=[types.Part(text=build_system_instruction(scenario))]),
+                # Ask Gemini for resumption handles so a client that drops can continue this session
+                session_resumption=types.SessionResumptionConfig(handle=resume_handle),
             )
             
             # Connect to Gemini Live API - get the actual session object
@@ -157,11 +225,14 @@ class GeminiSession:
             
             logger.info("Connected to Gemini Live API")
             self.is_active = True
+            self.binary_audio = binary_audio
             
             # Notify client of successful connection
             await self.client_ws.send_json({
                 "type": "connected",
-                "message": "Successfully connected to Gemini"
+                "message": "Successfully connected to Gemini",
+                "protocol_version": PROTOCOL_VERSION,
+                "binary_audio": binary_audio
             })
             
             return True
@@ -171,17 +242,13 @@ class GeminiSession:
             self.is_active = False
             raise
     
-    async def send_audio(self, audio_base64: str):
-        """Send audio chunk to Gemini."""
+    async def send_audio(self, audio_bytes: bytes):
+        """Send a chunk of 16kHz PCM16 audio to Gemini."""
         if not self.session or not self.is_active:
             logger.warning("Cannot send audio - session not active")
             return
         
         try:
-            # Decode base64 audio
-            audio_bytes = base64.b64decode(audio_base64)
-            logger.debug(f"Decoded {len(audio_bytes)} bytes of PCM audio")
-            
             # Send realtime input to Gemini using Blob
             await self.session.send_realtime_input(
                 media=types.Blob(
@@ -233,17 +300,29 @@ class GeminiSession:
                     if not self.is_active:
                         break
                     
+                    # Forward resumption handles so the client can reconnect to this session
+                    update = response.session_resumption_update
+                    if update and update.resumable and update.new_handle:
+                        await self.client_ws.send_json({
+                            "type": "session_resumption",
+                            "handle": update.new_handle
+                        })
+
                     # Handle tool calls
                     if response.tool_call:
                         await self.handle_tool_call(response.tool_call)
 
                     # Handle audio responses - only from response.data (not from server_content)
                     if response.data:
-                        audio_data = base64.b64encode(response.data).decode('utf-8')
-                        await self.client_ws.send_json({
-                            "type": "audio_response",
-                            "data": audio_data
-                        })
+                        if self.binary_audio:
+                            header = AUDIO_FRAME_HEADER.pack(AUDIO_RESPONSE_FRAME, 0, OUTPUT_SAMPLE_RATE, time.time() * 1000)
+                            await self.client_ws.send_bytes(header + response.data)
+                        else:
+                            audio_data = base64.b64encode(response.data).decode('utf-8')
+                            await self.client_ws.send_json({
+                                "type": "audio_response",
+                                "data": audio_data
+                            })
                         logger.info(f"Sent audio response to client ({len(response.data)} bytes)")
                     
                     # Handle text responses (if any)
@@ -286,6 +365,90 @@ class GeminiSession:
                 logger.error(f"Error closing session: {e}")
 
 
+async def receive_session_start(websocket: WebSocket) -> tuple[dict, Optional[dict]]:
+    """Wait for the client's start_session message.
+
+    Returns it ({} if none arrives) and, when the client started with another
+    message instead, that message so it is handled like any other.
+    """
+    try:
+        message = await asyncio.wait_for(websocket.receive(), timeout=SESSION_START_TIMEOUT)
+    except asyncio.TimeoutError:
+        logger.info("No start_session received - starting in live coach mode")
+        return {}, None
+    if message["type"] == "websocket.disconnect":
+        raise WebSocketDisconnect(message.get("code", 1000))
+
+    if message.get("text") is None:
+        logger.info("First message was binary, not start_session - starting in live coach mode")
+        return {}, message
+    try:
+        data = json.loads(message["text"])
+    except json.JSONDecodeError as e:
+        logger.warning(f"Invalid first message ({e}) - starting in live coach mode")
+        return {}, None
+    if not isinstance(data, dict):
+        logger.warning("First message is not a JSON object - starting in live coach mode")
+        return {}, None
+    if data.get("type") != "start_session":
+        # Clients older than protocol v2 start streaming audio right away
+        logger.info(f"Expected start_session, got {data.get('type')} - starting in live coach mode")
+        return {}, message
+    return data, None
+
+
+async def handle_client_message(session: GeminiSession, message: dict) -> bool:
+    """Handle one binary audio frame or JSON message; returns False when the client asked to stop."""
+    if message.get("bytes") is not None:
+        frame = message["bytes"]
+        if len(frame) < AUDIO_FRAME_HEADER.size:
+            logger.warning(f"Ignoring short binary frame ({len(frame)} bytes)")
+            return True
+        frame_type = AUDIO_FRAME_HEADER.unpack_from(frame)[0]
+        if frame_type == AUDIO_CHUNK_FRAME:
+            await session.send_audio(frame[AUDIO_FRAME_HEADER.size:])
+        else:
+            logger.warning(f"Ignoring binary frame of type {frame_type}")
+        return True
+
+    data = json.loads(message["text"])
+
+    if data.get("type") == "audio_chunk":
+        audio_base64 = data.get("data")
+        if audio_base64:
+            logger.debug(f"Received audio chunk: {len(audio_base64)} bytes")
+            await session.send_audio(base64.b64decode(audio_base64))
+
+    elif data.get("type") == "end_of_turn":
+        logger.info("User finished speaking - sending realtime end signal to Gemini")
+        # Send explicit end signal for realtime audio input
+        if session.session:
+            try:
+                # Realtime input has no end_of_turn; ending the audio stream makes Gemini
+                # respond to what it has heard (push-to-talk release / "ask the coach now")
+                await session.session.send_realtime_input(audio_stream_end=True)
+                logger.info("Sent realtime end_of_turn signal to Gemini successfully")
+            except Exception as e:
+                logger.error(f"Error sending end_of_turn: {e}")
+
+    elif data.get("type") == "text_message":
+        # Typed input from the clients' text chat, e.g. when the user can't speak
+        text = data.get("text", "")
+        if text:
+            logger.info(f"Received text message: {text}")
+            await session.session.send(input=text, end_of_turn=True)
+
+    elif data.get("type") == "request_summary":
+        logger.info("Client requested a negotiation summary")
+        await session.session.send(input=SUMMARY_REQUEST, end_of_turn=True)
+
+    elif data.get("type") == "stop":
+        logger.info("Client requested stop")
+        return False
+
+    return True
+
+
 @app.get("/health")
 async def health_check():
     """Health check endpoint."""
@@ -306,45 +469,22 @@ async def websocket_endpoint(websocket: WebSocket):
     session = GeminiSession(websocket)
     
     try:
-        # Connect to Gemini
-        await session.connect()
+        # Connect to Gemini, as the coach or as a practice counterpart
+        start, pending = await receive_session_start(websocket)
+        await session.connect(start.get("scenario"), start.get("resume_handle"), bool(start.get("binary_audio")))
         
         # Start receiving responses in background
         receive_task = asyncio.create_task(session.receive_responses())
         
-        # Process client messages
+        # Process client messages, starting with one received in place of start_session
         while session.is_active:
             try:
-                # Receive message from client
-                message = await websocket.receive_text()
-                data = json.loads(message)
-                
-                if data.get("type") == "audio_chunk":
-                    audio_base64 = data.get("data")
-                    if audio_base64:
-                        logger.debug(f"Received audio chunk: {len(audio_base64)} bytes")
-                        await session.send_audio(audio_base64)
-                
-                elif data.get("type") == "end_of_turn":
-                    logger.info("User finished speaking - sending realtime end signal to Gemini")
-                    # Send explicit end signal for realtime audio input
-                    if session.session:
-                        try:
-                            # For realtime audio, we need to send an end-of-speech signal
-                            await session.session.send_realtime_input(end_of_turn=True)
-                            logger.info("Sent realtime end_of_turn signal to Gemini successfully")
-                        except Exception as e:
-                            logger.error(f"Error sending end_of_turn: {e}")
-                
-                elif data.get("type") == "text_message":
-                    # Temporary: Support text input for testing when audio streaming not available
-                    text = data.get("text", "")
-                    if text:
-                        logger.info(f"Received text message: {text}")
-                        await session.session.send(input=text, end_of_turn=True)
-                        
-                elif data.get("type") == "stop":
-                    logger.info("Client requested stop")
+                # Receive message from client: binary audio frames or JSON text
+                message = pending or await websocket.receive()
+                pending = None
+                if message["type"] == "websocket.disconnect":
+                    raise WebSocketDisconnect(message.get("code", 1000))
+                if not await handle_client_message(session, message):
                     break
                     
             except WebSocketDisconnect:
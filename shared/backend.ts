@@ -0,0 +1,86 @@
+/**
+ * Backend address handling for both clients. The user enters the server once
+ * (e.g. `192.168.1.20:8000`) and it is normalized to the `/ws` WebSocket URL;
+ * the `/health` endpoint is derived from the same host.
+ */
+
+export const DEFAULT_BACKEND_URL = 'ws://localhost:8000/ws';
+export const HEALTH_TIMEOUT_MS = 5000;
+
+/** Body of `GET /health`. */
+export interface HealthStatus {
+  status: string;
+  api_key_configured: boolean;
+  timestamp: string;
+}
+
+export class HealthCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HealthCheckError';
+  }
+}
+
+// scheme://authority/path?query, without relying on URL (incomplete in React Native)
+const URL_PATTERN = /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/?#\s]+)([^?#\s]*)(\?[^#\s]*)?$/i;
+
+const WS_SCHEMES: Record<string, string> = { ws: 'ws', wss: 'wss', http: 'ws', https: 'wss' };
+
+/**
+ * Turns user input into the WebSocket URL: a missing scheme defaults to
+ * `ws://`, http(s) maps to ws(s) and an empty path becomes `/ws`. A query
+ * string is kept, e.g. `?scenario=` for the mock server.
+ * Returns null when the input isn't a usable address.
+ */
+export function normalizeBackendUrl(input: string): string | null {
+  const match = URL_PATTERN.exec(input.trim());
+  if (!match) return null;
+  const [, scheme = 'ws', authority, path, query = ''] = match;
+  const wsScheme = WS_SCHEMES[scheme.toLowerCase()];
+  if (!wsScheme) return null;
+  const trimmedPath = path.replace(/\/+$/, '');
+  return `${wsScheme}://${authority}${trimmedPath || '/ws'}${query}`;
+}
+
+/** `ws://host:8000/ws` -> `http://host:8000/health` */
+export function healthUrl(backendUrl: string): string {
+  const match = URL_PATTERN.exec(backendUrl);
+  if (!match) throw new HealthCheckError(`Invalid server address: ${backendUrl}`);
+  const [, scheme = 'ws', authority] = match;
+  const httpScheme = scheme.toLowerCase() === 'wss' || scheme.toLowerCase() === 'https' ? 'https' : 'http';
+  return `${httpScheme}://${authority}/health`;
+}
+
+function isHealthStatus(value: unknown): value is HealthStatus {
+  if (typeof value !== 'object' || value === null) return false;
+  const fields = value as Record<string, unknown>;
+  return typeof fields.status === 'string' && typeof fields.api_key_configured === 'boolean';
+}
+
+/** Calls `/health` on the backend; rejects with a HealthCheckError describing what failed. */
+export async function checkHealth(backendUrl: string, timeoutMs = HEALTH_TIMEOUT_MS): Promise<HealthStatus> {
+  const url = healthUrl(backendUrl);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: controller.signal });
+    } catch {
+      throw new HealthCheckError(
+        controller.signal.aborted ? `No response from ${url} after ${timeoutMs / 1000}s` : `Could not reach ${url}`
+      );
+    }
+    if (!response.ok) throw new HealthCheckError(`${url} returned HTTP ${response.status}`);
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new HealthCheckError(`${url} did not return JSON`);
+    }
+    if (!isHealthStatus(body)) throw new HealthCheckError(`${url} is not a coach server`);
+    return body;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
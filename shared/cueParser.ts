@@ -0,0 +1,136 @@
+/**
+ * Reads the coach's spoken cues. The system prompt has Gemini speak in a
+ * strict `<technique>, <what to say>` format ("Mirror, fair price?",
+ * "Pause."); this turns a transcription turn into a structured cue and pairs
+ * it with the `tool_call` for the same technique, when Gemini made one.
+ */
+
+import type { CoachCue } from './cues';
+import type { CoachTool } from './protocol';
+import type { TranscriptTurn } from './transcript';
+
+/** A cue parsed from what the coach said. */
+export interface SpokenCue {
+  // The transcript turn it was read from; the cue is re-parsed as the turn grows
+  turnId: string;
+  at: number;
+  technique: CoachTool;
+  // The keyword as spoken, e.g. 'Mirror'
+  keyword: string;
+  // What to say; empty for a bare "Pause."
+  phrase: string;
+  // 0-1: how closely the turn followed the format, raised by a matching tool call
+  confidence: number;
+  // Id of the matching `tool_call` cue
+  toolCueId: string | null;
+}
+
+// Spoken keywords, lower case; the coach is told to use the first of each
+const KEYWORDS: [string, CoachTool][] = [
+  ['mirror', 'suggest_mirroring'],
+  ['mirroring', 'suggest_mirroring'],
+  ['label', 'suggest_labeling'],
+  ['labeling', 'suggest_labeling'],
+  ['empathy', 'suggest_tactical_empathy'],
+  ['tactical empathy', 'suggest_tactical_empathy'],
+  ['ask', 'suggest_calibrated_questions'],
+  ['calibrated question', 'suggest_calibrated_questions'],
+  ['pause', 'suggest_effective_pauses'],
+  ['silence', 'suggest_effective_pauses'],
+];
+
+// A tool call this close to the start of the spoken cue is taken to be the same suggestion
+export const CUE_MATCH_WINDOW_MS = 5000;
+// Number of spoken cues kept, like the tool-call feed
+export const MAX_SPOKEN_CUES = 20;
+
+const EXACT = 0.9;
+const LOOSE_SEPARATOR = 0.7;
+const NO_SEPARATOR = 0.4;
+// For 'mirroring', 'silence'... instead of the keyword the coach is told to use
+const ALIAS_PENALTY = 0.1;
+const TOOL_MATCH_BONUS = 0.1;
+
+export interface ParsedCue {
+  technique: CoachTool;
+  keyword: string;
+  phrase: string;
+  confidence: number;
+}
+
+/**
+ * Parses `<technique>, <what to say>`. The exact format with a comma scores
+ * highest; a period, colon or dash instead scores lower, and the keyword with
+ * no separator lowest. Text that doesn't start with a technique gives null.
+ */
+export function parseCue(text: string): ParsedCue | null {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  // Longest keyword first, so 'mirroring' isn't read as 'mirror' + 'ing'
+  const match = [...KEYWORDS]
+    .sort((a, b) => b[0].length - a[0].length)
+    .find(([keyword]) => lower.startsWith(keyword) && !/[a-z]/.test(lower.charAt(keyword.length)));
+  if (!match) return null;
+
+  const [keyword, technique] = match;
+  const rest = trimmed.slice(keyword.length);
+  const separator = /^\s*([,.:;!\-–—])\s*/.exec(rest);
+  const phrase = (separator ? rest.slice(separator[0].length) : rest).trim();
+  const isCanonical = KEYWORDS.find(([, tool]) => tool === technique)?.[0] === keyword;
+
+  let confidence = NO_SEPARATOR;
+  if (separator?.[1] === ',' || (separator && phrase === '')) confidence = EXACT;
+  else if (separator) confidence = LOOSE_SEPARATOR;
+  if (!isCanonical) confidence -= ALIAS_PENALTY;
+
+  return { technique, keyword: trimmed.slice(0, keyword.length), phrase, confidence };
+}
+
+/** Pairs a spoken cue with the nearest unclaimed tool call for the same technique. */
+export function reconcileCue(spoken: SpokenCue, toolCues: CoachCue[], claimed: Set<string> = new Set()): SpokenCue {
+  if (spoken.toolCueId) return spoken;
+  const match = toolCues
+    .filter((cue) => cue.tool === spoken.technique && !claimed.has(cue.id))
+    .filter((cue) => Math.abs(cue.receivedAt - spoken.at) <= CUE_MATCH_WINDOW_MS)
+    .sort((a, b) => Math.abs(a.receivedAt - spoken.at) - Math.abs(b.receivedAt - spoken.at))[0];
+  if (!match) return spoken;
+  const argPhrase = typeof match.args?.phrase === 'string' ? match.args.phrase : '';
+  return {
+    ...spoken,
+    phrase: spoken.phrase || argPhrase,
+    confidence: Math.min(1, spoken.confidence + TOOL_MATCH_BONUS),
+    toolCueId: match.id,
+  };
+}
+
+/**
+ * Adds or updates the cue read from `turn` (newest first), pairing it with a
+ * tool call. A turn that no longer parses, e.g. "Ask" growing into "Asking",
+ * drops its cue.
+ */
+export function updateSpokenCues(spokenCues: SpokenCue[], turn: TranscriptTurn, toolCues: CoachCue[]): SpokenCue[] {
+  const existing = spokenCues.find((cue) => cue.turnId === turn.id);
+  const others = spokenCues.filter((cue) => cue.turnId !== turn.id);
+  const parsed = turn.role === 'coach' ? parseCue(turn.text) : null;
+  if (!parsed) return existing ? others : spokenCues;
+
+  const claimed = new Set(others.flatMap((cue) => (cue.toolCueId ? [cue.toolCueId] : [])));
+  const spoken = reconcileCue({ turnId: turn.id, at: turn.startedAt, ...parsed, toolCueId: null }, toolCues, claimed);
+  return [spoken, ...others].slice(0, MAX_SPOKEN_CUES);
+}
+
+/** Pairs spoken cues still without a tool call with a newly received one. */
+export function reconcileSpokenCues(spokenCues: SpokenCue[], toolCues: CoachCue[]): SpokenCue[] {
+  const claimed = new Set(spokenCues.flatMap((cue) => (cue.toolCueId ? [cue.toolCueId] : [])));
+  return spokenCues.map((spoken) => {
+    const reconciled = reconcileCue(spoken, toolCues, claimed);
+    if (reconciled.toolCueId) claimed.add(reconciled.toolCueId);
+    return reconciled;
+  });
+}
+
+/** The card text, e.g. `MIRROR: fair price?`. */
+export function formatSpokenCue(cue: Pick<SpokenCue, 'keyword' | 'phrase'>): string {
+  const heading = cue.keyword.toUpperCase();
+  return cue.phrase ? `${heading}: ${cue.phrase}` : heading;
+}
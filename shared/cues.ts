@@ -0,0 +1,62 @@
+import { isCoachTool, type CoachTool, type ToolCallMessage } from './protocol';
+
+/** A single coaching suggestion, created from a `tool_call` message. */
+export interface CoachCue {
+  id: string;
+  tool: string;
+  args: Record<string, unknown> | null;
+  receivedAt: number;
+}
+
+export interface TechniqueInfo {
+  label: string;
+  color: string; // hex, shared so both clients use the same palette
+}
+
+export const TECHNIQUES: Record<CoachTool, TechniqueInfo> = {
+  suggest_mirroring: { label: 'Mirror', color: '#60A5FA' },
+  suggest_labeling: { label: 'Label', color: '#F472B6' },
+  suggest_tactical_empathy: { label: 'Empathy', color: '#34D399' },
+  suggest_calibrated_questions: { label: 'Ask', color: '#FBBF24' },
+  suggest_effective_pauses: { label: 'Pause', color: '#A78BFA' },
+  provide_real_time_feedback: { label: 'Feedback', color: '#38BDF8' },
+  summarize_negotiation: { label: 'Summary', color: '#A1A1AA' },
+};
+
+const UNKNOWN_TECHNIQUE: TechniqueInfo = { label: 'Tip', color: '#A1A1AA' };
+
+// Number of cues kept in the feed; older ones are dropped
+export const MAX_CUES = 20;
+
+let cueCounter = 0;
+
+export function techniqueInfo(tool: string): TechniqueInfo {
+  return isCoachTool(tool) ? TECHNIQUES[tool] : UNKNOWN_TECHNIQUE;
+}
+
+export function cueFromToolCall(message: ToolCallMessage, receivedAt = Date.now()): CoachCue {
+  cueCounter += 1;
+  return {
+    id: `${receivedAt}-${cueCounter}`,
+    tool: message.tool,
+    args: message.args,
+    receivedAt,
+  };
+}
+
+/** Returns a new feed with `cue` first, capped at `MAX_CUES`. */
+export function prependCue(cues: CoachCue[], cue: CoachCue): CoachCue[] {
+  return [cue, ...cues].slice(0, MAX_CUES);
+}
+
+/** Flattens tool-call args into display strings, e.g. `phrase: fair price?`. */
+export function formatCueArgs(args: CoachCue['args']): string[] {
+  if (!args) return [];
+  return Object.entries(args).map(([key, value]) =>
+    `${key.replace(/_/g, ' ')}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+  );
+}
+
+export function formatCueTime(receivedAt: number): string {
+  return new Date(receivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
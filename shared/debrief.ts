@@ -0,0 +1,73 @@
+import { isCoachTool, type CoachTool } from './protocol';
+
+export type TechniqueCounts = Partial<Record<CoachTool, number>>;
+
+/** Post-negotiation debrief, built from the `summarize_negotiation` tool call. */
+export interface Debrief {
+  id: string;
+  createdAt: number;
+  scenarioTitle: string;
+  durationMs: number;
+  keyPoints: string[];
+  concessions: string[];
+  missedOpportunities: string[];
+  finalTerms: string | null;
+  techniqueCounts: TechniqueCounts;
+  // False when the session ended before Gemini returned a summary
+  summaryAvailable: boolean;
+}
+
+// How long to wait for `summarize_negotiation` after sending `request_summary`
+export const SUMMARY_TIMEOUT_MS = 20000;
+
+// Number of debriefs kept in storage; older ones are dropped
+export const MAX_DEBRIEFS = 50;
+
+/** Counts a coaching tool call; the summary itself is not a technique. */
+export function countTechnique(counts: TechniqueCounts, tool: string): TechniqueCounts {
+  if (!isCoachTool(tool) || tool === 'summarize_negotiation') return counts;
+  return { ...counts, [tool]: (counts[tool] ?? 0) + 1 };
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  if (typeof value === 'string' && value.trim()) return [value];
+  return [];
+}
+
+interface BuildDebriefOptions {
+  summaryArgs: Record<string, unknown> | null;
+  techniqueCounts: TechniqueCounts;
+  scenarioTitle: string;
+  startedAt: number;
+  endedAt?: number;
+}
+
+export function buildDebrief({
+  summaryArgs,
+  techniqueCounts,
+  scenarioTitle,
+  startedAt,
+  endedAt = Date.now(),
+}: BuildDebriefOptions): Debrief {
+  const args = summaryArgs ?? {};
+  return {
+    id: `${endedAt}`,
+    createdAt: endedAt,
+    scenarioTitle,
+    durationMs: endedAt - startedAt,
+    keyPoints: toStringList(args.key_points),
+    concessions: toStringList(args.concessions),
+    missedOpportunities: toStringList(args.missed_opportunities),
+    finalTerms: typeof args.final_terms === 'string' && args.final_terms.trim() ? args.final_terms : null,
+    techniqueCounts,
+    summaryAvailable: summaryArgs !== null,
+  };
+}
+
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
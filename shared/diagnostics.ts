@@ -0,0 +1,179 @@
+/**
+ * Latency and throughput instrumentation shared by both clients.
+ *
+ * Latencies are measured from the last mic chunk that carried speech: to the
+ * next coaching cue (`micToCue`) and to the first `audio_response` of the
+ * coach's reply (`firstAudio`). Socket throughput is a sliding one-second
+ * window over the bytes sent and received.
+ */
+
+import type { JitterBufferStats } from './jitterBuffer';
+
+// Display level (see levels.ts) above which a mic chunk counts as speech
+const VOICE_LEVEL = 0.35;
+const THROUGHPUT_WINDOW_MS = 1000;
+// Latency samples kept for stats and export
+const MAX_SAMPLES = 500;
+
+export type LatencyKind = 'micToCue' | 'firstAudio';
+
+export interface LatencySample {
+  kind: LatencyKind;
+  at: number;
+  ms: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  lastMs: number | null;
+  avgMs: number | null;
+  p95Ms: number | null;
+}
+
+export interface DiagnosticsSnapshot {
+  at: number;
+  micToCue: LatencyStats;
+  firstAudio: LatencyStats;
+  queueDepthMs: number;
+  sentBytesPerSec: number;
+  receivedBytesPerSec: number;
+  totalSentBytes: number;
+  totalReceivedBytes: number;
+  // Mobile only: jitter buffer metrics
+  playback?: JitterBufferStats;
+}
+
+export interface DiagnosticsExport {
+  platform: string;
+  startedAt: number;
+  exportedAt: number;
+  snapshot: DiagnosticsSnapshot;
+  samples: LatencySample[];
+}
+
+interface ByteEvent {
+  at: number;
+  bytes: number;
+}
+
+export class DiagnosticsRecorder {
+  private startedAt = Date.now();
+  private lastVoiceAt: number | null = null;
+  private awaitingFirstAudio = true;
+  private samples: LatencySample[] = [];
+  private sent: ByteEvent[] = [];
+  private received: ByteEvent[] = [];
+  private totalSent = 0;
+  private totalReceived = 0;
+
+  reset(now = Date.now()) {
+    this.startedAt = now;
+    this.lastVoiceAt = null;
+    this.awaitingFirstAudio = true;
+    this.samples = [];
+    this.sent = [];
+    this.received = [];
+    this.totalSent = 0;
+    this.totalReceived = 0;
+  }
+
+  /** `level` is the chunk's 0..1 display level. */
+  noteMicChunk(level: number, now = Date.now()) {
+    if (level >= VOICE_LEVEL) this.lastVoiceAt = now;
+  }
+
+  noteSent(bytes: number, now = Date.now()) {
+    this.totalSent += bytes;
+    addByteEvent(this.sent, { at: now, bytes });
+  }
+
+  noteReceived(bytes: number, now = Date.now()) {
+    this.totalReceived += bytes;
+    addByteEvent(this.received, { at: now, bytes });
+  }
+
+  noteCue(now = Date.now()) {
+    if (this.lastVoiceAt !== null) this.addSample('micToCue', now - this.lastVoiceAt, now);
+  }
+
+  noteAudioResponse(now = Date.now()) {
+    if (!this.awaitingFirstAudio) return;
+    this.awaitingFirstAudio = false;
+    if (this.lastVoiceAt !== null) this.addSample('firstAudio', now - this.lastVoiceAt, now);
+  }
+
+  /** The coach finished or was interrupted; the next audio starts a new reply. */
+  noteTurnEnd() {
+    this.awaitingFirstAudio = true;
+  }
+
+  snapshot(queueDepthMs: number, now = Date.now()): DiagnosticsSnapshot {
+    pruneByteEvents(this.sent, now);
+    pruneByteEvents(this.received, now);
+    return {
+      at: now,
+      micToCue: latencyStats(this.samples, 'micToCue'),
+      firstAudio: latencyStats(this.samples, 'firstAudio'),
+      queueDepthMs: Math.max(0, Math.round(queueDepthMs)),
+      sentBytesPerSec: sumBytes(this.sent),
+      receivedBytesPerSec: sumBytes(this.received),
+      totalSentBytes: this.totalSent,
+      totalReceivedBytes: this.totalReceived,
+    };
+  }
+
+  export(platform: string, snapshot: DiagnosticsSnapshot): DiagnosticsExport {
+    return { platform, startedAt: this.startedAt, exportedAt: Date.now(), snapshot, samples: [...this.samples] };
+  }
+
+  private addSample(kind: LatencyKind, ms: number, at: number) {
+    this.samples.push({ kind, at, ms });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+}
+
+const encoder = new TextEncoder();
+
+/** Byte size of a WebSocket payload as sent or received; text frames are UTF-8. */
+export function payloadBytes(data: string | ArrayBuffer): number {
+  return typeof data === 'string' ? encoder.encode(data).byteLength : data.byteLength;
+}
+
+export function latencyStats(samples: LatencySample[], kind: LatencyKind): LatencyStats {
+  const values = samples.filter((s) => s.kind === kind).map((s) => s.ms);
+  if (values.length === 0) return { count: 0, lastMs: null, avgMs: null, p95Ms: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    lastMs: values[values.length - 1],
+    avgMs: Math.round(values.reduce((sum, ms) => sum + ms, 0) / values.length),
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+  };
+}
+
+export function formatMs(ms: number | null): string {
+  return ms === null ? '—' : `${ms} ms`;
+}
+
+export function formatRate(bytesPerSec: number): string {
+  return bytesPerSec >= 1024 ? `${(bytesPerSec / 1024).toFixed(1)} KB/s` : `${bytesPerSec} B/s`;
+}
+
+export function diagnosticsFilename(now = new Date()): string {
+  return `diagnostics-${now.toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+}
+
+// Events arrive in time order, so only the window is kept, even while nothing takes snapshots
+function addByteEvent(events: ByteEvent[], event: ByteEvent) {
+  events.push(event);
+  pruneByteEvents(events, event.at);
+}
+
+function pruneByteEvents(events: ByteEvent[], now: number) {
+  const stale = events.findIndex((e) => now - e.at <= THROUGHPUT_WINDOW_MS);
+  events.splice(0, stale === -1 ? events.length : stale);
+}
+
+function sumBytes(events: ByteEvent[]): number {
+  return events.reduce((sum, e) => sum + e.bytes, 0);
+}
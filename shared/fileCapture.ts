@@ -0,0 +1,89 @@
+/**
+ * A prerecorded negotiation as the session's "microphone": the file is
+ * decoded by the platform, mixed to mono, resampled to 16 kHz PCM16 and
+ * streamed over the same `audio_chunk` path as live capture, so runs with the
+ * same file are comparable.
+ */
+
+import { MIC_SAMPLE_RATE, type CaptureAdapter } from './liveSession';
+import { float32ToPcm16 } from './pcm';
+import { LinearResampler, mixToMono } from './resample';
+
+/** A decoded audio file, e.g. from `AudioContext.decodeAudioData`. */
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/** Plays the file locally alongside the stream, e.g. to hear what the coach hears. */
+export interface FileMonitor {
+  start(speed: number): void;
+  stop(): void;
+}
+
+export interface FileCaptureOptions {
+  // 1 streams in real time; 2 sends the file in half its duration
+  speed?: number;
+  chunkMs?: number;
+  monitor?: FileMonitor;
+  // Called once the whole file has been sent; the session stays open
+  onEnded?: () => void;
+}
+
+export const FILE_SPEEDS = [1, 2, 4];
+const DEFAULT_CHUNK_MS = 100;
+
+/** Mixes and resamples a decoded file into 16 kHz mono PCM16 bytes. */
+export function toMicPcm(audio: DecodedAudio): Uint8Array {
+  const mono = mixToMono(audio.channels);
+  const resampled = audio.sampleRate === MIC_SAMPLE_RATE
+    ? mono
+    : new LinearResampler(audio.sampleRate, MIC_SAMPLE_RATE).process(mono);
+  return new Uint8Array(float32ToPcm16(resampled).buffer);
+}
+
+export class FileCapture implements CaptureAdapter {
+  private pcm: Uint8Array | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly speed: number;
+  private readonly chunkBytes: number;
+
+  constructor(private readonly decode: () => Promise<DecodedAudio>, private readonly options: FileCaptureOptions = {}) {
+    this.speed = options.speed ?? 1;
+    this.chunkBytes = Math.round(((options.chunkMs ?? DEFAULT_CHUNK_MS) / 1000) * MIC_SAMPLE_RATE) * 2;
+  }
+
+  /** Decodes the file once; a file that can't be decoded fails the connect. */
+  async prepare() {
+    this.pcm ??= toMicPcm(await this.decode());
+    return true;
+  }
+
+  // Always starts from the beginning of the file; reconnects don't restart capture
+  async start(onChunk: (pcm: Uint8Array) => void) {
+    this.clearTimer();
+    const pcm = this.pcm;
+    if (!pcm) throw new Error('FileCapture started before prepare');
+    let offset = 0;
+    this.options.monitor?.start(this.speed);
+    const intervalMs = (this.options.chunkMs ?? DEFAULT_CHUNK_MS) / this.speed;
+    this.timer = setInterval(() => {
+      onChunk(pcm.subarray(offset, offset + this.chunkBytes));
+      offset += this.chunkBytes;
+      if (offset >= pcm.length) {
+        this.clearTimer();
+        this.options.onEnded?.();
+      }
+    }, intervalMs);
+  }
+
+  async stop() {
+    this.clearTimer();
+    this.options.monitor?.stop();
+  }
+
+  private clearTimer() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
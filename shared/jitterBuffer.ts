@@ -0,0 +1,165 @@
+/**
+ * Adaptive jitter buffer for streamed PCM16 playback.
+ *
+ * Incoming chunks are held until enough audio is buffered to ride out network
+ * jitter, then coalesced into buffers for a native queue. The pre-roll target
+ * follows the observed inter-arrival jitter, grows after an underrun and decays
+ * back once playback is stable. Audio is never dropped: when the native queue
+ * holds too many buffers, later chunks are coalesced into larger ones instead.
+ */
+
+export interface JitterBufferOptions {
+  sampleRate: number;
+  // Audio buffered before playback starts (and restarts after an underrun)
+  preRollMs: number;
+  minTargetMs: number;
+  maxTargetMs: number;
+  // Smallest buffer handed to the queue once playing
+  minChunkMs: number;
+  // Queued buffers above this count as an overflow and switch to coalescing
+  maxQueuedBuffers: number;
+}
+
+export interface JitterBufferStats {
+  targetMs: number;
+  jitterMs: number;
+  bufferedMs: number;
+  queuedMs: number;
+  queuedBuffers: number;
+  underruns: number;
+  overflows: number;
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  sampleRate: 24000,
+  preRollMs: 150,
+  minTargetMs: 80,
+  maxTargetMs: 1000,
+  minChunkMs: 40,
+  maxQueuedBuffers: 30,
+};
+
+const UNDERRUN_BOOST_MS = 100;
+const BOOST_DECAY = 0.9;
+// Smoothing factor of the RFC 3550 interarrival jitter estimate
+const JITTER_GAIN = 1 / 16;
+// Coalesced buffer size while the native queue is over its limit
+const OVERFLOW_CHUNK_MS = 500;
+
+export class JitterBuffer {
+  readonly options: JitterBufferOptions;
+
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private playing = false;
+  private streamEnded = false;
+
+  private lastArrival: number | null = null;
+  private lastChunkMs = 0;
+  private jitterMs = 0;
+  private boostMs = 0;
+
+  private queuedDurations: number[] = [];
+  private underruns = 0;
+  private overflows = 0;
+
+  constructor(options: Partial<JitterBufferOptions> = {}) {
+    this.options = { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options };
+  }
+
+  /** Adds a received chunk; returns a buffer to enqueue, if one is ready. */
+  push(chunk: Uint8Array, now = Date.now()): Uint8Array | null {
+    this.updateJitter(now, this.bytesToMs(chunk.byteLength));
+    this.streamEnded = false;
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.byteLength;
+    return this.take(false);
+  }
+
+  /** End of a turn: returns whatever is still pending so it plays out. */
+  flush(): Uint8Array | null {
+    this.streamEnded = true;
+    this.lastArrival = null;
+    this.boostMs *= BOOST_DECAY;
+    return this.take(true);
+  }
+
+  /** Call when the native queue finishes a buffer. */
+  onBufferEnded() {
+    this.queuedDurations.shift();
+    if (this.queuedDurations.length > 0 || !this.playing) return;
+    if (!this.streamEnded) {
+      // Ran dry mid-turn: buffer more before resuming
+      this.underruns += 1;
+      this.boostMs += UNDERRUN_BOOST_MS;
+    }
+    // The next chunk waits for a full pre-roll again
+    this.playing = false;
+  }
+
+  /** Drops everything, e.g. when the coach is interrupted. */
+  reset() {
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.playing = false;
+    this.streamEnded = false;
+    this.lastArrival = null;
+    this.queuedDurations = [];
+  }
+
+  get targetMs(): number {
+    const { preRollMs, minTargetMs, maxTargetMs } = this.options;
+    return Math.round(Math.max(minTargetMs, Math.min(maxTargetMs, preRollMs + 3 * this.jitterMs + this.boostMs)));
+  }
+
+  get stats(): JitterBufferStats {
+    return {
+      targetMs: this.targetMs,
+      jitterMs: Math.round(this.jitterMs),
+      bufferedMs: Math.round(this.bytesToMs(this.pendingBytes)),
+      queuedMs: Math.round(this.queuedDurations.reduce((sum, ms) => sum + ms, 0)),
+      queuedBuffers: this.queuedDurations.length,
+      underruns: this.underruns,
+      overflows: this.overflows,
+    };
+  }
+
+  private take(force: boolean): Uint8Array | null {
+    if (this.pendingBytes === 0) return null;
+    const pendingMs = this.bytesToMs(this.pendingBytes);
+
+    if (!force) {
+      const overLimit = this.queuedDurations.length >= this.options.maxQueuedBuffers;
+      const needed = !this.playing ? this.targetMs : overLimit ? OVERFLOW_CHUNK_MS : this.options.minChunkMs;
+      if (pendingMs < needed) return null;
+      if (overLimit) this.overflows += 1;
+    }
+
+    const combined = new Uint8Array(this.pendingBytes);
+    let offset = 0;
+    for (const chunk of this.pending) {
+      combined.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.playing = true;
+    this.queuedDurations.push(pendingMs);
+    return combined;
+  }
+
+  // Interarrival jitter: how late chunks arrive relative to the audio they carry.
+  // Early (bursty) arrivals only add buffer, so they don't count.
+  private updateJitter(now: number, chunkMs: number) {
+    if (this.lastArrival !== null) {
+      const deviation = Math.max(0, now - this.lastArrival - this.lastChunkMs);
+      this.jitterMs += (deviation - this.jitterMs) * JITTER_GAIN;
+    }
+    this.lastArrival = now;
+    this.lastChunkMs = chunkMs;
+  }
+
+  private bytesToMs(bytes: number): number {
+    return (bytes / 2 / this.options.sampleRate) * 1000;
+  }
+}
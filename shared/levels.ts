@@ -0,0 +1,45 @@
+/**
+ * Audio level metering for the orb: RMS of a block of samples, mapped to
+ * a 0..1 display level on a dB scale, and smoothed with a fast attack and a
+ * slow release so it doesn't flicker between chunks.
+ */
+
+export interface AudioLevel {
+  rms: number;
+}
+
+// Levels below this are shown as silence
+const FLOOR_DB = -60;
+const ATTACK = 0.6;
+const RELEASE = 0.15;
+
+export const LEVEL_UPDATE_MS = 50;
+
+/** RMS of `samples`, divided by `fullScale` (32768 for PCM16, 1 for float). */
+export function measureLevel(samples: ArrayLike<number>, fullScale = 1): AudioLevel {
+  if (samples.length === 0) return { rms: 0 };
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / fullScale;
+    sum += s * s;
+  }
+  return { rms: Math.sqrt(sum / samples.length) };
+}
+
+export function measurePcm16(samples: Int16Array): AudioLevel {
+  return measureLevel(samples, 32768);
+}
+
+/** Maps a linear amplitude to 0..1 across FLOOR_DB..0 dBFS. */
+export function toDisplayLevel(amplitude: number): number {
+  if (amplitude <= 0) return 0;
+  const db = 20 * Math.log10(amplitude);
+  return Math.max(0, Math.min(1, 1 - db / FLOOR_DB));
+}
+
+/** One smoothing step from `previous` towards `target`. */
+export function smoothLevel(previous: number, target: number): number {
+  const factor = target > previous ? ATTACK : RELEASE;
+  const next = previous + (target - previous) * factor;
+  return next < 0.001 ? 0 : next;
+}
@@ -0,0 +1,763 @@
+/**
+ * Session lifecycle shared by both clients: the `/ws` socket with
+ * start_session and reconnects, dispatch of server messages, push-to-talk,
+ * transcript, cues, levels, the debrief and the session record.
+ *
+ * A connection moves through `ConnectionPhase`s:
+ *
+ *   idle -> socket-open -> model-ready -> streaming -> closing -> idle
+ *
+ * `socket-open` waits for the server's `connected` message, which is sent once
+ * the Gemini session is up; only then does the microphone start. Failures move
+ * to `error` with a `SessionError` saying why. A dropped session goes back to
+ * `idle` with `isReconnecting` set and resumes through the same phases.
+ *
+ * Audio I/O is platform specific and plugged in as a CaptureAdapter and a
+ * PlaybackAdapter. The React hooks (`web/hooks/useLiveSession.ts` and
+ * `frontend/hooks/useAudioConnection.ts`) subscribe to its state and forward
+ * their props through `configure`.
+ */
+
+import {
+  PROTOCOL_VERSION,
+  assertNever,
+  decodeAudioFrame,
+  encodeAudioFrame,
+  encodeClientMessage,
+  isCompatibleVersion,
+  parseServerMessage,
+  type ServerMessage,
+} from './protocol';
+import { cueFromToolCall, prependCue, type CoachCue } from './cues';
+import { appendFragment, appendTurn, closeTurn, type TranscriptTurn } from './transcript';
+import { reconcileSpokenCues, updateSpokenCues, type SpokenCue } from './cueParser';
+import { scenarioTitle, type Scenario } from './scenarios';
+import { SUMMARY_TIMEOUT_MS, buildDebrief, countTechnique, type Debrief, type TechniqueCounts } from './debrief';
+import type { AudioChunkRecord, SessionRecord } from './sessions';
+import { MAX_RECONNECT_ATTEMPTS, OfflineChunkBuffer, backoffDelay } from './reconnect';
+import { DiagnosticsRecorder, payloadBytes, type DiagnosticsExport, type DiagnosticsSnapshot } from './diagnostics';
+import { LEVEL_UPDATE_MS, measureLevel, measurePcm16, smoothLevel, toDisplayLevel } from './levels';
+import { base64ToBytes, bytesToBase64, bytesToPcm16 } from './pcm';
+import type { JitterBufferStats } from './jitterBuffer';
+import { DEFAULT_BACKEND_URL } from './backend';
+
+export const MIC_SAMPLE_RATE = 16000;
+
+// WebSocket.OPEN
+const SOCKET_OPEN = 1;
+// How long the server may take to open the Gemini session after the socket opens
+export const MODEL_READY_TIMEOUT_MS = 15000;
+// Samples read from the playback output for its level
+const OUTPUT_LEVEL_SAMPLES = 1024;
+
+export type ConnectionPhase = 'idle' | 'socket-open' | 'model-ready' | 'streaming' | 'closing' | 'error';
+
+const TRANSITIONS: Record<ConnectionPhase, ConnectionPhase[]> = {
+  idle: ['socket-open', 'error'],
+  'socket-open': ['model-ready', 'closing', 'idle', 'error'],
+  'model-ready': ['streaming', 'closing', 'idle', 'error'],
+  streaming: ['closing', 'idle', 'error'],
+  closing: ['idle', 'error'],
+  error: ['idle'],
+};
+
+export type SessionErrorReason =
+  // Audio setup failed before connecting
+  | 'start-failed'
+  // The socket never opened
+  | 'unreachable'
+  // The server sent an error, or closed before the coach was ready
+  | 'server'
+  // No `connected` message within MODEL_READY_TIMEOUT_MS
+  | 'model-timeout'
+  // The server speaks a protocol version this client doesn't support
+  | 'protocol'
+  // The connection dropped and could not be resumed
+  | 'connection-lost';
+
+export class SessionError extends Error {
+  constructor(readonly reason: SessionErrorReason, message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/** Microphone input; chunks are 16 kHz mono little-endian PCM16. */
+export interface CaptureAdapter {
+  /** Asks for the microphone; resolves false when there is none and the session should continue text-only. */
+  prepare(): Promise<boolean>;
+  start(onChunk: (pcm: Uint8Array) => void): Promise<void>;
+  /** Stops capturing and releases the microphone. */
+  stop(): Promise<void>;
+}
+
+/** Output for the coach's 24 kHz PCM16 audio. */
+export interface PlaybackAdapter {
+  /** Creates or resumes the output before a session starts. */
+  prepare(): Promise<void>;
+  enqueue(pcm: Uint8Array): void;
+  /** The coach's turn is over: plays out anything held back. */
+  flush(): void;
+  /** Drops everything queued, on interruption and when the session ends. */
+  stop(): void;
+  /** Releases the output, e.g. when the screen unmounts. */
+  close(): Promise<void>;
+  /** Audio accepted but not heard yet. */
+  readonly queuedMs: number;
+  readonly stats?: JitterBufferStats;
+  /** Fills `samples` with what is currently audible, for the playback level. */
+  readOutput?(samples: Float32Array<ArrayBuffer>): void;
+}
+
+export interface LiveSessionAdapters {
+  capture: CaptureAdapter;
+  playback: PlaybackAdapter;
+  // Reported in diagnostics exports
+  platform: string;
+}
+
+export interface LiveSessionConfig {
+  // WebSocket URL of the backend; read on each (re)connect
+  backendUrl: string;
+  // Practice scenario sent in start_session; null runs the live coach
+  scenario: Scenario | null;
+  // Only send mic audio between startTalking and stopTalking
+  pushToTalk: boolean;
+  // Keep mic and coach audio with the session record passed to onSessionEnd
+  saveAudio: boolean;
+  // Drop the coach's voice instead of playing it (it is still recorded)
+  muteCoachAudio: boolean;
+  onCue?: (cue: CoachCue) => void;
+  onSessionEnd?: (session: SessionRecord, audio: AudioChunkRecord[]) => void;
+}
+
+export interface AudioLevels {
+  mic: number;
+  playback: number;
+}
+
+export interface LiveSessionState {
+  phase: ConnectionPhase;
+  // Why the last connection failed; cleared by the next connect
+  error: SessionError | null;
+  // The socket is open (socket-open through closing)
+  isConnected: boolean;
+  isReconnecting: boolean;
+  // Coach audio is playing; stays true until the queued audio has been heard
+  isSpeaking: boolean;
+  isEnding: boolean;
+  isTalking: boolean;
+  // False when the session runs text-only
+  hasMicrophone: boolean;
+  status: string;
+  cues: CoachCue[];
+  // Cues read from what the coach said, newest first, paired with `cues` where Gemini made the tool call
+  spokenCues: SpokenCue[];
+  turns: TranscriptTurn[];
+  // Smoothed 0..1 display levels
+  levels: AudioLevels;
+}
+
+const SILENT: AudioLevels = { mic: 0, playback: 0 };
+
+export const INITIAL_SESSION_STATE: LiveSessionState = {
+  phase: 'idle',
+  error: null,
+  isConnected: false,
+  isReconnecting: false,
+  isSpeaking: false,
+  isEnding: false,
+  isTalking: false,
+  hasMicrophone: false,
+  status: 'Ready to connect',
+  cues: [],
+  spokenCues: [],
+  turns: [],
+  levels: SILENT,
+};
+
+const DEFAULT_CONFIG: LiveSessionConfig = {
+  backendUrl: DEFAULT_BACKEND_URL,
+  scenario: null,
+  pushToTalk: false,
+  saveAudio: false,
+  muteCoachAudio: false,
+};
+
+type PendingSession = Omit<SessionRecord, 'endedAt' | 'hasAudio'>;
+
+export class LiveSession {
+  private current = INITIAL_SESSION_STATE;
+  private readonly listeners = new Set<() => void>();
+  private config = DEFAULT_CONFIG;
+
+  private socket: WebSocket | null = null;
+  // Set once the server's connected message confirms binary audio frames
+  private binaryAudio = false;
+  private readyTimer: ReturnType<typeof setTimeout> | null = null;
+  private capturing = false;
+  // Input chosen with setCapture, swapped in by the next connect
+  private nextCapture: CaptureAdapter | null = null;
+  // A close is only retried when the user didn't ask for it
+  private intentionalClose = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumeHandle: string | null = null;
+  private readonly offlineChunks = new OfflineChunkBuffer();
+
+  private record: PendingSession | null = null;
+  private recordAudio: AudioChunkRecord[] = [];
+  private startedAt: number | null = null;
+  private techniqueCounts: TechniqueCounts = {};
+  private summaryResolver: ((args: Record<string, unknown> | null) => void) | null = null;
+
+  private speakingTimer: ReturnType<typeof setTimeout> | null = null;
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+  private micTarget = 0;
+  private readonly outputSamples = new Float32Array(OUTPUT_LEVEL_SAMPLES);
+
+  readonly diagnostics = new DiagnosticsRecorder();
+
+  constructor(private adapters: LiveSessionAdapters, config: Partial<LiveSessionConfig> = {}) {
+    this.configure(config);
+  }
+
+  /** Called after every state change; returns the unsubscribe function. */
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): LiveSessionState => this.current;
+
+  /** Takes effect from the next message, chunk or reconnect. */
+  configure(config: Partial<LiveSessionConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /** Replaces the audio input, e.g. the mic with a recorded file; a running session keeps its input. */
+  setCapture(capture: CaptureAdapter) {
+    this.nextCapture = capture === this.adapters.capture ? null : capture;
+  }
+
+  connect = async () => {
+    const { phase } = this.current;
+    if ((phase !== 'idle' && phase !== 'error') || this.socket || this.reconnectTimer) return;
+    if (phase === 'error') this.transition('idle', { error: null });
+    if (this.nextCapture) {
+      this.adapters = { ...this.adapters, capture: this.nextCapture };
+      this.nextCapture = null;
+    }
+    try {
+      this.update({ status: 'Requesting microphone...' });
+      const hasMicrophone = await this.adapters.capture.prepare();
+      this.update({ status: 'Connecting...', hasMicrophone, cues: [], spokenCues: [], turns: [] });
+      await this.adapters.playback.prepare();
+
+      this.intentionalClose = false;
+      this.reconnectAttempt = 0;
+      this.resumeHandle = null;
+      this.offlineChunks.clear();
+      this.diagnostics.reset();
+      this.openSocket();
+    } catch (e) {
+      console.error('Error starting session:', e);
+      this.fail(new SessionError('start-failed', 'Could not start the session'));
+    }
+  };
+
+  /** Ends the session and resolves with its debrief, or null if it never started. */
+  disconnect = async (): Promise<Debrief | null> => {
+    this.intentionalClose = true;
+    this.clearReconnectTimer();
+    if (this.socket) this.transition('closing');
+    this.update({ isTalking: false });
+    await this.stopCapture();
+
+    let debrief: Debrief | null = null;
+    const startedAt = this.startedAt;
+    this.startedAt = null;
+    if (startedAt !== null) {
+      this.update({ isEnding: true, status: 'Preparing debrief...' });
+      const summaryArgs = await this.requestSummary();
+      debrief = buildDebrief({
+        summaryArgs,
+        techniqueCounts: this.techniqueCounts,
+        scenarioTitle: scenarioTitle(this.record?.scenario ?? null),
+        startedAt,
+      });
+      if (this.record) this.record.debriefId = debrief.id;
+      this.update({ isEnding: false });
+    }
+
+    if (this.socket) {
+      this.socket.close();
+    } else {
+      // Ended mid-reconnect: there is no socket whose onclose would clean up
+      this.endConnection('Disconnected');
+    }
+    return debrief;
+  };
+
+  /** Ends any session without a debrief and releases audio, e.g. on unmount. */
+  dispose = async () => {
+    this.intentionalClose = true;
+    this.clearReconnectTimer();
+    const ws = this.socket;
+    this.socket = null;
+    ws?.close();
+    this.endConnection('Disconnected');
+    await this.adapters.playback.close();
+  };
+
+  startTalking = () => {
+    this.update({ isTalking: true });
+  };
+
+  stopTalking = () => {
+    if (!this.current.isTalking) return;
+    this.update({ isTalking: false });
+    this.askCoach();
+  };
+
+  /** Closes the user's turn so Gemini responds without waiting for silence. */
+  askCoach = () => {
+    const ws = this.readySocket();
+    if (ws) this.send(ws, encodeClientMessage({ type: 'end_of_turn' }));
+  };
+
+  /** Typed input for when speaking isn't possible; the coach answers as it would to speech. */
+  sendTextMessage = (text: string) => {
+    const ws = this.readySocket();
+    if (!ws) return;
+    this.send(ws, encodeClientMessage({ type: 'text_message', text }));
+    this.updateTurns((prev) => appendTurn(prev, text));
+  };
+
+  diagnosticsSnapshot = (): DiagnosticsSnapshot => {
+    const { queuedMs, stats } = this.adapters.playback;
+    const snapshot = this.diagnostics.snapshot(queuedMs);
+    return stats ? { ...snapshot, playback: stats } : snapshot;
+  };
+
+  exportDiagnostics = (): DiagnosticsExport => {
+    return this.diagnostics.export(this.adapters.platform, this.diagnosticsSnapshot());
+  };
+
+  private update(patch: Partial<LiveSessionState>) {
+    this.current = { ...this.current, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private transition(phase: ConnectionPhase, patch: Partial<LiveSessionState> = {}) {
+    const from = this.current.phase;
+    if (from !== phase && !TRANSITIONS[from].includes(phase)) {
+      console.warn(`Unexpected session transition ${from} -> ${phase}`);
+    }
+    this.update({ ...patch, phase });
+  }
+
+  /** Moves to `error`, showing `error` until the next connect; any session is ended and saved. */
+  private fail(error: SessionError) {
+    console.error(`Session failed (${error.reason}):`, error.message);
+    this.transition('error', { error, status: error.message });
+    this.intentionalClose = true;
+    const ws = this.socket;
+    this.socket = null;
+    ws?.close();
+    this.endConnection();
+  }
+
+  // Every tool-call cue of the session, not only the capped feed
+  private toolCues(): CoachCue[] {
+    return this.record?.cues ?? this.current.cues;
+  }
+
+  private updateTurns(change: (prev: TranscriptTurn[]) => TranscriptTurn[]) {
+    this.update({ turns: change(this.current.turns) });
+  }
+
+  // The socket, once the server has confirmed the Gemini session
+  private readySocket(): WebSocket | null {
+    const { phase } = this.current;
+    const ready = phase === 'model-ready' || phase === 'streaming' || phase === 'closing';
+    return ready && this.socket?.readyState === SOCKET_OPEN ? this.socket : null;
+  }
+
+  private send(ws: WebSocket, payload: string | ArrayBuffer) {
+    this.diagnostics.noteSent(payloadBytes(payload));
+    ws.send(payload);
+  }
+
+  // Binary frames only reach this as bytes, so they are encoded only when audio is saved
+  private keepAudio(track: AudioChunkRecord['track'], data: string | Uint8Array) {
+    if (this.record && this.config.saveAudio) {
+      this.recordAudio.push({ at: Date.now(), track, data: typeof data === 'string' ? data : bytesToBase64(data) });
+    }
+  }
+
+  // Reconnects reuse this, keeping the session, transcript and capture running
+  private openSocket() {
+    const ws = new WebSocket(this.config.backendUrl);
+    ws.binaryType = 'arraybuffer';
+    this.socket = ws;
+    this.binaryAudio = false;
+
+    ws.onopen = () => this.opened(ws);
+    ws.onmessage = (event) => this.received(event.data);
+    ws.onclose = () => this.closed(ws);
+    ws.onerror = (error) => {
+      // onclose always follows and decides whether to reconnect
+      console.error('WebSocket error:', error);
+    };
+  }
+
+  private opened(ws: WebSocket) {
+    const isResuming = this.record !== null;
+    console.log(isResuming ? 'Reconnected to WebSocket' : 'Connected to WebSocket');
+    this.transition('socket-open', {
+      isConnected: true,
+      status: isResuming ? 'Reconnected - resuming the coach...' : 'Starting the coach...',
+    });
+    this.send(ws, encodeClientMessage({
+      type: 'start_session',
+      scenario: this.config.scenario,
+      resume_handle: this.resumeHandle,
+      binary_audio: true,
+    }));
+    this.readyTimer = setTimeout(() => this.modelTimedOut(ws), MODEL_READY_TIMEOUT_MS);
+  }
+
+  // A resume that stalls is retried like a dropped socket; a first connect fails
+  private modelTimedOut(ws: WebSocket) {
+    this.readyTimer = null;
+    if (this.record !== null && this.reconnectAttempt < MAX_RECONNECT_ATTEMPTS) {
+      console.warn('The coach did not resume in time');
+      this.socket = null;
+      ws.close();
+      this.scheduleReconnect();
+      return;
+    }
+    this.fail(new SessionError('model-timeout', `The coach did not start within ${MODEL_READY_TIMEOUT_MS / 1000}s`));
+  }
+
+  // The server's connected message: Gemini is listening, so the session (re)starts here
+  private async modelReady(ws: WebSocket) {
+    this.clearReadyTimer();
+    const isResuming = this.record !== null;
+    this.reconnectAttempt = 0;
+    this.transition('model-ready', { isReconnecting: false });
+    this.startLevels();
+
+    if (isResuming) {
+      const buffer = this.offlineChunks;
+      if (buffer.dropped > 0) console.warn(`Dropped ${buffer.dropped} mic chunks while offline`);
+      for (const bytes of buffer.drain()) this.sendAudioChunk(ws, bytes);
+    } else {
+      this.startedAt = Date.now();
+      this.techniqueCounts = {};
+      this.record = {
+        id: `${this.startedAt}`,
+        startedAt: this.startedAt,
+        scenario: this.config.scenario,
+        turns: [],
+        cues: [],
+        debriefId: null,
+      };
+    }
+
+    // Capture keeps running through a reconnect
+    if (this.current.hasMicrophone && !this.capturing) await this.startCapture();
+    if (this.current.phase !== 'model-ready' || this.socket !== ws) return;
+    this.transition('streaming', {
+      status: !this.current.hasMicrophone
+        ? 'Connected - no microphone, type to the coach'
+        : isResuming ? 'Reconnected - Listening...' : 'Connected - Listening...',
+    });
+  }
+
+  private async startCapture() {
+    this.capturing = true;
+    try {
+      await this.adapters.capture.start((pcm) => this.sendMicChunk(pcm));
+    } catch (e) {
+      // The session continues text-only
+      console.error('Error starting microphone capture:', e);
+      this.capturing = false;
+      this.update({ hasMicrophone: false });
+    }
+  }
+
+  private async stopCapture() {
+    this.capturing = false;
+    try {
+      await this.adapters.capture.stop();
+    } catch (e) {
+      console.warn('Error stopping microphone capture:', e);
+    }
+  }
+
+  private sendMicChunk(bytes: Uint8Array) {
+    this.micTarget = toDisplayLevel(measurePcm16(bytesToPcm16(bytes)).rms);
+    if (this.config.pushToTalk && !this.current.isTalking) return;
+    // Only speech the coach hears anchors the latency measurements
+    this.diagnostics.noteMicChunk(this.micTarget);
+
+    const ws = this.current.phase === 'streaming' ? this.readySocket() : null;
+    if (!ws) {
+      // Reconnecting: keep the audio and flush it once the coach is ready again
+      if (!this.record) return;
+      this.offlineChunks.push(bytes);
+    } else {
+      this.sendAudioChunk(ws, bytes);
+    }
+    this.keepAudio('mic', bytes);
+  }
+
+  // As a binary frame once the server has confirmed them, else as base64 JSON
+  private sendAudioChunk(ws: WebSocket, bytes: Uint8Array) {
+    if (this.binaryAudio) {
+      this.send(ws, encodeAudioFrame('audio_chunk', bytes, MIC_SAMPLE_RATE));
+    } else {
+      this.send(ws, encodeClientMessage({ type: 'audio_chunk', data: bytesToBase64(bytes), timestamp: Date.now() }));
+    }
+  }
+
+  private received(data: string | ArrayBuffer) {
+    this.diagnostics.noteReceived(payloadBytes(data));
+    if (data instanceof ArrayBuffer) {
+      try {
+        const frame = decodeAudioFrame(data);
+        if (frame.type === 'audio_response') this.coachAudio(frame.pcm);
+      } catch (e) {
+        console.warn('Ignoring invalid audio frame:', e);
+      }
+      return;
+    }
+
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(data);
+    } catch (e) {
+      console.warn('Ignoring invalid server message:', e);
+      return;
+    }
+
+    switch (message.type) {
+      case 'connected':
+        console.log('Gemini session ready:', message.message);
+        if (!isCompatibleVersion(message.protocol_version)) {
+          this.fail(new SessionError('protocol', `Server protocol v${message.protocol_version} is not supported by this app (v${PROTOCOL_VERSION})`));
+          break;
+        }
+        this.binaryAudio = message.binary_audio === true;
+        if (this.current.phase === 'socket-open' && this.socket) this.modelReady(this.socket);
+        break;
+      case 'audio_response':
+        this.coachAudio(base64ToBytes(message.data));
+        break;
+      case 'transcription': {
+        this.updateTurns((prev) => appendFragment(prev, message.text));
+        // In practice mode the transcript is the counterpart speaking, not coaching cues
+        if (this.config.scenario) break;
+        const turn = this.current.turns[this.current.turns.length - 1];
+        this.update({ spokenCues: updateSpokenCues(this.current.spokenCues, turn, this.toolCues()) });
+        break;
+      }
+      case 'turn_complete':
+        this.diagnostics.noteTurnEnd();
+        this.updateTurns((prev) => closeTurn(prev));
+        // Play out whatever is held back, and stay speaking until it has been heard
+        this.adapters.playback.flush();
+        this.clearSpeakingTimer();
+        this.speakingTimer = setTimeout(() => {
+          this.speakingTimer = null;
+          this.update({ isSpeaking: false });
+        }, this.adapters.playback.queuedMs);
+        break;
+      case 'interrupted':
+        console.log('Received interruption signal');
+        this.diagnostics.noteTurnEnd();
+        this.updateTurns((prev) => closeTurn(prev, true));
+        this.adapters.playback.stop();
+        this.stopSpeaking();
+        break;
+      case 'tool_call': {
+        console.log(`Tool call: ${message.tool}`, message.args);
+        if (message.tool === 'summarize_negotiation') {
+          this.summaryResolver?.(message.args);
+          break;
+        }
+        this.diagnostics.noteCue();
+        this.techniqueCounts = countTechnique(this.techniqueCounts, message.tool);
+        const cue = cueFromToolCall(message);
+        this.record?.cues.push(cue);
+        this.update({ cues: prependCue(this.current.cues, cue) });
+        this.update({ spokenCues: reconcileSpokenCues(this.current.spokenCues, this.toolCues()) });
+        this.config.onCue?.(cue);
+        break;
+      }
+      case 'session_resumption':
+        this.resumeHandle = message.handle;
+        break;
+      case 'error':
+        // The server closes the socket after an error, so the session can't continue
+        this.fail(new SessionError('server', `Server error: ${message.message}`));
+        break;
+      default:
+        assertNever(message);
+    }
+  }
+
+  private coachAudio(pcm: Uint8Array) {
+    this.diagnostics.noteAudioResponse();
+    this.clearSpeakingTimer();
+    if (!this.current.isSpeaking) this.update({ isSpeaking: true });
+    this.keepAudio('coach', pcm);
+    if (this.config.muteCoachAudio) return;
+    try {
+      this.adapters.playback.enqueue(pcm);
+    } catch (e) {
+      console.error('Error playing coach audio:', e);
+    }
+  }
+
+  private closed(ws: WebSocket) {
+    // A socket replaced by a reconnect, or already given up on, may still report its close
+    if (this.socket !== ws) return;
+    console.log('Disconnected');
+    const { phase } = this.current;
+    this.socket = null;
+    this.clearReadyTimer();
+    this.summaryResolver?.(null);
+    this.stopSpeaking();
+
+    if (this.intentionalClose) {
+      this.endConnection('Disconnected');
+      return;
+    }
+    if (this.record === null) {
+      // Never got as far as a session
+      this.fail(phase === 'idle'
+        ? new SessionError('unreachable', `Could not reach the coach server at ${this.config.backendUrl}`)
+        : new SessionError('server', 'The server closed the connection before the coach was ready'));
+      return;
+    }
+    if (this.reconnectAttempt < MAX_RECONNECT_ATTEMPTS) {
+      this.scheduleReconnect();
+      return;
+    }
+    this.fail(new SessionError('connection-lost', 'Connection lost - could not resume the session'));
+  }
+
+  private scheduleReconnect() {
+    const attempt = this.reconnectAttempt;
+    this.reconnectAttempt = attempt + 1;
+    const delay = backoffDelay(attempt);
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt + 1})`);
+    this.updateTurns((prev) => closeTurn(prev, true));
+    this.transition('idle', {
+      isConnected: false,
+      isReconnecting: true,
+      status: `Connection lost - reconnecting (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})...`,
+    });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  // Ends the session; after a failure the error phase and its message are kept
+  private endConnection(finalStatus = 'Disconnected') {
+    this.clearReconnectTimer();
+    this.clearReadyTimer();
+    this.offlineChunks.clear();
+    this.finishSession();
+    this.stopCapture();
+    this.adapters.playback.stop();
+    this.stopSpeaking();
+    this.stopLevels();
+    this.startedAt = null;
+    const patch = { isConnected: false, isReconnecting: false, isTalking: false };
+    if (this.current.phase === 'error') this.update(patch);
+    else this.transition('idle', { ...patch, status: finalStatus });
+  }
+
+  private finishSession() {
+    const record = this.record;
+    if (!record) return;
+    this.record = null;
+    const audio = this.recordAudio;
+    this.recordAudio = [];
+    this.config.onSessionEnd?.({ ...record, turns: this.current.turns, endedAt: Date.now(), hasAudio: audio.length > 0 }, audio);
+  }
+
+  // Asks Gemini for summarize_negotiation; resolves with its args, or null on timeout/close
+  private requestSummary() {
+    return new Promise<Record<string, unknown> | null>((resolve) => {
+      const ws = this.readySocket();
+      if (!ws) {
+        resolve(null);
+        return;
+      }
+      const timeout = setTimeout(() => this.summaryResolver?.(null), SUMMARY_TIMEOUT_MS);
+      this.summaryResolver = (args) => {
+        clearTimeout(timeout);
+        this.summaryResolver = null;
+        resolve(args);
+      };
+      this.send(ws, encodeClientMessage({ type: 'request_summary' }));
+    });
+  }
+
+  private stopSpeaking() {
+    this.clearSpeakingTimer();
+    if (this.current.isSpeaking) this.update({ isSpeaking: false });
+  }
+
+  private clearSpeakingTimer() {
+    if (this.speakingTimer) clearTimeout(this.speakingTimer);
+    this.speakingTimer = null;
+  }
+
+  private clearReadyTimer() {
+    if (this.readyTimer) clearTimeout(this.readyTimer);
+    this.readyTimer = null;
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  // Smooths mic and playback levels while the session runs
+  private startLevels() {
+    if (this.levelTimer) return;
+    this.levelTimer = setInterval(() => {
+      let playbackTarget = 0;
+      if (this.adapters.playback.readOutput) {
+        this.adapters.playback.readOutput(this.outputSamples);
+        playbackTarget = toDisplayLevel(measureLevel(this.outputSamples).rms);
+      }
+      const prev = this.current.levels;
+      const next = {
+        mic: smoothLevel(prev.mic, this.micTarget),
+        playback: smoothLevel(prev.playback, playbackTarget),
+      };
+      if (Math.abs(next.mic - prev.mic) > 0.005 || Math.abs(next.playback - prev.playback) > 0.005) {
+        this.update({ levels: next });
+      }
+      // Mic chunks arrive every ~100ms; let the level fall if they stop
+      this.micTarget = smoothLevel(this.micTarget, 0);
+    }, LEVEL_UPDATE_MS);
+  }
+
+  private stopLevels() {
+    if (this.levelTimer) clearInterval(this.levelTimer);
+    this.levelTimer = null;
+    this.micTarget = 0;
+    if (this.current.levels !== SILENT) this.update({ levels: SILENT });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * PCM16 <-> Float32 conversions for both clients. Both directions scale by
+ * 32768, so int16 -> float -> int16 is lossless and +1.0 clips to 32767.
+ */
+
+const PCM16_SCALE = 32768;
+
+/** Decodes base64 little-endian PCM16 into Float32 samples in [-1, 1). */
+export function decodePcm16Base64(base64: string): Float32Array {
+  const binary = atob(base64);
+  const samples = new Float32Array(binary.length >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    const int16 = (binary.charCodeAt(i * 2) | (binary.charCodeAt(i * 2 + 1) << 8)) << 16 >> 16;
+    samples[i] = int16 / PCM16_SCALE;
+  }
+  return samples;
+}
+
+/** Converts PCM16 samples into Float32 samples in [-1, 1). */
+export function pcm16ToFloat32(samples: Int16Array): Float32Array {
+  const floats = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    floats[i] = samples[i] / PCM16_SCALE;
+  }
+  return floats;
+}
+
+/** Converts Float32 samples into PCM16, rounding and clipping to the int16 range. */
+export function float32ToPcm16(floats: Float32Array): Int16Array {
+  const samples = new Int16Array(floats.length);
+  for (let i = 0; i < floats.length; i++) {
+    samples[i] = Math.max(-PCM16_SCALE, Math.min(PCM16_SCALE - 1, Math.round(floats[i] * PCM16_SCALE)));
+  }
+  return samples;
+}
+
+/** Views little-endian PCM16 bytes as samples, copying only if they are misaligned. */
+export function bytesToPcm16(bytes: Uint8Array): Int16Array {
+  if (bytes.byteOffset % 2 === 0) {
+    return new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+  }
+  return new Int16Array(bytes.slice().buffer, 0, bytes.byteLength >> 1);
+}
+
+// String.fromCharCode takes its arguments on the stack, so encode in slices
+const BASE64_SLICE_BYTES = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_SLICE_BYTES) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_SLICE_BYTES) as unknown as number[]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
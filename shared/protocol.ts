@@ -0,0 +1,286 @@
+/**
+ * Wire protocol for the `/ws` endpoint served by `server/main.py`.
+ *
+ * Imported by both the Next.js client (`web/`) and the Expo client
+ * (`frontend/`) through the `@shared/*` path alias, so a message that is
+ * added or renamed here has to be handled by both clients before they compile.
+ */
+
+import type { Scenario } from './scenarios';
+
+/**
+ * Bumped whenever a message is added, removed or changes shape. The server
+ * advertises its version in the `connected` message; servers that predate
+ * versioning omit it and are treated as version 1.
+ */
+export const PROTOCOL_VERSION = 5;
+// Oldest server the clients still talk to; newer fields are optional on the wire
+export const MIN_SUPPORTED_PROTOCOL_VERSION = 1;
+
+// Tools declared in `TOOLS` on the server
+export const COACH_TOOLS = [
+  'suggest_mirroring',
+  'suggest_labeling',
+  'suggest_tactical_empathy',
+  'suggest_calibrated_questions',
+  'suggest_effective_pauses',
+  'provide_real_time_feedback',
+  'summarize_negotiation',
+] as const;
+
+export type CoachTool = (typeof COACH_TOOLS)[number];
+
+export function isCoachTool(name: string): name is CoachTool {
+  return (COACH_TOOLS as readonly string[]).includes(name);
+}
+
+// ---------------------------------------------------------------------------
+// Client -> Server
+// ---------------------------------------------------------------------------
+
+/**
+ * Sent once, right after the socket opens. The server waits briefly for it
+ * before opening the Gemini session; v1 servers ignore it. After a dropped
+ * connection, `resume_handle` is the last handle from `session_resumption`
+ * so Gemini keeps the conversation context. `binary_audio` asks for audio in
+ * binary frames (see `encodeAudioFrame`); the server confirms in `connected`.
+ */
+export interface StartSessionMessage {
+  type: 'start_session';
+  scenario: Scenario | null;
+  resume_handle?: string | null;
+  binary_audio?: boolean;
+}
+
+export interface AudioChunkMessage {
+  type: 'audio_chunk';
+  data: string; // base64 PCM16, 16kHz mono
+  timestamp: number;
+}
+
+export interface EndOfTurnMessage {
+  type: 'end_of_turn';
+}
+
+export interface TextMessage {
+  type: 'text_message';
+  text: string;
+}
+
+/** Asks Gemini to call `summarize_negotiation` before the client disconnects. */
+export interface RequestSummaryMessage {
+  type: 'request_summary';
+}
+
+export interface StopMessage {
+  type: 'stop';
+}
+
+export type ClientMessage =
+  | StartSessionMessage
+  | AudioChunkMessage
+  | EndOfTurnMessage
+  | TextMessage
+  | RequestSummaryMessage
+  | StopMessage;
+
+// ---------------------------------------------------------------------------
+// Server -> Client
+// ---------------------------------------------------------------------------
+
+/**
+ * `binary_audio` is true when the server accepted binary frames: from here on
+ * it sends audio as binary frames and accepts them from the client. When it is
+ * missing (older servers) both sides keep using base64 JSON messages.
+ */
+export interface ConnectedMessage {
+  type: 'connected';
+  message: string;
+  protocol_version?: number;
+  binary_audio?: boolean;
+}
+
+export interface AudioResponseMessage {
+  type: 'audio_response';
+  data: string; // base64 PCM16, 24kHz mono
+}
+
+export interface TranscriptionMessage {
+  type: 'transcription';
+  text: string;
+}
+
+export interface TurnCompleteMessage {
+  type: 'turn_complete';
+}
+
+export interface InterruptedMessage {
+  type: 'interrupted';
+}
+
+export interface ToolCallMessage {
+  type: 'tool_call';
+  tool: string;
+  args: Record<string, unknown> | null;
+}
+
+/** Latest Gemini session resumption handle; replaces any previous one. */
+export interface SessionResumptionMessage {
+  type: 'session_resumption';
+  handle: string;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ServerMessage =
+  | ConnectedMessage
+  | AudioResponseMessage
+  | TranscriptionMessage
+  | TurnCompleteMessage
+  | InterruptedMessage
+  | ToolCallMessage
+  | SessionResumptionMessage
+  | ErrorMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// ---------------------------------------------------------------------------
+// Encoding / validation
+// ---------------------------------------------------------------------------
+
+export class ProtocolError extends Error {
+  constructor(message: string, readonly payload: unknown) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+const isOptionalBoolean = (value: unknown) => value === undefined || typeof value === 'boolean';
+const isArgs = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'object' && !Array.isArray(value));
+
+// Keyed by every server message type, so a new member of `ServerMessage`
+// without a validator is a compile error.
+const serverValidators: { [K in ServerMessageType]: (fields: Fields) => boolean } = {
+  connected: (m) => isString(m.message) && isOptionalNumber(m.protocol_version) && isOptionalBoolean(m.binary_audio),
+  audio_response: (m) => isString(m.data),
+  transcription: (m) => isString(m.text),
+  turn_complete: () => true,
+  interrupted: () => true,
+  tool_call: (m) => isString(m.tool) && isArgs(m.args),
+  session_resumption: (m) => isString(m.handle),
+  error: (m) => isString(m.message),
+};
+
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Parses and validates a text frame received from the server.
+ * Throws a `ProtocolError` for malformed JSON, unknown types or missing fields.
+ */
+export function parseServerMessage(raw: string): ServerMessage {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON', raw);
+  }
+
+  if (typeof payload !== 'object' || payload === null || !isString((payload as Fields).type)) {
+    throw new ProtocolError('Message has no type', payload);
+  }
+
+  const fields = payload as Fields;
+  const type = fields.type as string;
+  if (!Object.prototype.hasOwnProperty.call(serverValidators, type)) {
+    throw new ProtocolError(`Unknown message type "${type}"`, payload);
+  }
+  if (!serverValidators[type as ServerMessageType](fields)) {
+    throw new ProtocolError(`Malformed "${type}" message`, payload);
+  }
+
+  if (type === 'tool_call' && fields.args === undefined) {
+    return { ...fields, args: null } as ToolCallMessage;
+  }
+  return fields as unknown as ServerMessage;
+}
+
+// ---------------------------------------------------------------------------
+// Binary audio frames
+// ---------------------------------------------------------------------------
+
+/**
+ * Audio sent as a binary WebSocket frame once `binary_audio` is negotiated:
+ * a 12-byte little-endian header followed by raw PCM16 mono samples.
+ *
+ *   offset 0  uint8    frame type (AUDIO_FRAME_TYPES)
+ *   offset 1  uint8    reserved, 0
+ *   offset 2  uint16   sample rate in Hz
+ *   offset 4  float64  capture/send timestamp, ms since epoch
+ *   offset 12 int16[]  samples
+ */
+export const AUDIO_FRAME_HEADER_BYTES = 12;
+
+export const AUDIO_FRAME_TYPES = {
+  audio_chunk: 1, // client -> server, 16kHz
+  audio_response: 2, // server -> client, 24kHz
+} as const;
+
+export type AudioFrameType = keyof typeof AUDIO_FRAME_TYPES;
+
+export interface AudioFrame {
+  type: AudioFrameType;
+  sampleRate: number;
+  timestamp: number;
+  pcm: Uint8Array;
+}
+
+export function encodeAudioFrame(type: AudioFrameType, pcm: Uint8Array, sampleRate: number, timestamp = Date.now()): ArrayBuffer {
+  const frame = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + pcm.byteLength);
+  const header = new DataView(frame.buffer);
+  header.setUint8(0, AUDIO_FRAME_TYPES[type]);
+  header.setUint8(1, 0);
+  header.setUint16(2, sampleRate, true);
+  header.setFloat64(4, timestamp, true);
+  frame.set(pcm, AUDIO_FRAME_HEADER_BYTES);
+  return frame.buffer;
+}
+
+/** Parses a binary frame; throws a `ProtocolError` for short or unknown frames. */
+export function decodeAudioFrame(buffer: ArrayBuffer): AudioFrame {
+  if (buffer.byteLength < AUDIO_FRAME_HEADER_BYTES || (buffer.byteLength - AUDIO_FRAME_HEADER_BYTES) % 2 !== 0) {
+    throw new ProtocolError(`Malformed audio frame of ${buffer.byteLength} bytes`, buffer);
+  }
+  const header = new DataView(buffer, 0, AUDIO_FRAME_HEADER_BYTES);
+  const code = header.getUint8(0);
+  const type = (Object.keys(AUDIO_FRAME_TYPES) as AudioFrameType[]).find((key) => AUDIO_FRAME_TYPES[key] === code);
+  if (!type) {
+    throw new ProtocolError(`Unknown audio frame type ${code}`, buffer);
+  }
+  return {
+    type,
+    sampleRate: header.getUint16(2, true),
+    timestamp: header.getFloat64(4, true),
+    pcm: new Uint8Array(buffer, AUDIO_FRAME_HEADER_BYTES),
+  };
+}
+
+/** True when a client built against `PROTOCOL_VERSION` can talk to the server. */
+export function isCompatibleVersion(serverVersion: number | undefined): boolean {
+  const version = serverVersion ?? 1;
+  return version >= MIN_SUPPORTED_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+}
+
+/** Used in the `default` branch of a switch over `ServerMessage['type']`. */
+export function assertNever(value: never): never {
+  throw new ProtocolError('Unhandled message', value);
+}
@@ -0,0 +1,56 @@
+/**
+ * Reconnection policy shared by both clients: exponential backoff with jitter,
+ * and a bounded buffer for microphone chunks captured while the socket is down.
+ */
+
+export const RECONNECT_BASE_DELAY_MS = 500;
+export const RECONNECT_MAX_DELAY_MS = 15000;
+export const MAX_RECONNECT_ATTEMPTS = 8;
+
+// ~10 s of 16 kHz PCM16 mic audio; older chunks are dropped first
+export const OFFLINE_BUFFER_MAX_BYTES = 16000 * 2 * 10;
+
+/** Delay before reconnect attempt `attempt` (0-based), with ±20% jitter. */
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+  const exponential = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(exponential * (0.8 + random() * 0.4));
+}
+
+/** FIFO of audio chunks capped at `maxBytes`. */
+export class OfflineChunkBuffer {
+  private chunks: Uint8Array[] = [];
+  private bytes = 0;
+  private droppedChunks = 0;
+
+  constructor(private readonly maxBytes = OFFLINE_BUFFER_MAX_BYTES) {}
+
+  push(chunk: Uint8Array) {
+    this.chunks.push(chunk);
+    this.bytes += chunk.byteLength;
+    while (this.bytes > this.maxBytes && this.chunks.length > 1) {
+      this.bytes -= this.chunks.shift()!.byteLength;
+      this.droppedChunks += 1;
+    }
+  }
+
+  /** Returns the buffered chunks in capture order and empties the buffer. */
+  drain(): Uint8Array[] {
+    const chunks = this.chunks;
+    this.clear();
+    return chunks;
+  }
+
+  clear() {
+    this.chunks = [];
+    this.bytes = 0;
+    this.droppedChunks = 0;
+  }
+
+  get size() {
+    return this.chunks.length;
+  }
+
+  get dropped() {
+    return this.droppedChunks;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Exports a saved session as a stereo WAV (the user's mic on the left, the
+ * coach on the right) with sidecars aligning transcript turns and cues to the
+ * audio: WebVTT for players and editors, JSON for scripts.
+ *
+ * All three share one clock: milliseconds since `SessionRecord.startedAt`.
+ */
+
+import { formatCueArgs, techniqueInfo } from './cues';
+import { decodePcm16Base64, float32ToPcm16 } from './pcm';
+import { LinearResampler } from './resample';
+import { TRACK_SAMPLE_RATES, buildTimeline, sessionDuration, type AudioChunkRecord, type AudioTrack, type SessionRecord } from './sessions';
+import { roleLabel } from './transcript';
+
+// The coach's rate, so only the mic is resampled
+export const RECORDING_SAMPLE_RATE = 24000;
+
+// Channel order of the WAV
+export const RECORDING_CHANNELS: AudioTrack[] = ['mic', 'coach'];
+
+// Length of a cue in the WebVTT file; cues are instants in the session
+const CUE_DISPLAY_MS = 4000;
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Lays each track's chunks out at the time they were sent or received. Coach
+ * audio arrives faster than it plays, so a chunk never starts before the
+ * previous one on its track has finished, as in the playback queue. Replay
+ * plays these same tracks, so it sounds like the exported WAV.
+ */
+export function renderTrack(session: SessionRecord, audio: AudioChunkRecord[], track: AudioTrack): Float32Array {
+  const resampler = TRACK_SAMPLE_RATES[track] === RECORDING_SAMPLE_RATE
+    ? null
+    : new LinearResampler(TRACK_SAMPLE_RATES[track], RECORDING_SAMPLE_RATE);
+  const placed: { offset: number; samples: Float32Array }[] = [];
+  let end = 0;
+  for (const chunk of audio) {
+    if (chunk.track !== track) continue;
+    const decoded = decodePcm16Base64(chunk.data);
+    const samples = resampler ? resampler.process(decoded) : decoded;
+    const offset = Math.max(end, Math.round(((chunk.at - session.startedAt) / 1000) * RECORDING_SAMPLE_RATE));
+    placed.push({ offset, samples });
+    end = offset + samples.length;
+  }
+
+  const length = Math.max(end, Math.round((sessionDuration(session) / 1000) * RECORDING_SAMPLE_RATE));
+  const output = new Float32Array(length);
+  for (const { offset, samples } of placed) output.set(samples, offset);
+  return output;
+}
+
+/** Interleaves equal-length channels into a PCM16 WAV file. */
+export function encodeWav(channels: Int16Array[], sampleRate: number): Uint8Array<ArrayBuffer> {
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const bytes = new Uint8Array(WAV_HEADER_BYTES + frames * blockAlign);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+
+  for (let frame = 0; frame < frames; frame++) {
+    channels.forEach((channel, index) => {
+      view.setInt16(WAV_HEADER_BYTES + frame * blockAlign + index * 2, channel[frame], true);
+    });
+  }
+  return bytes;
+}
+
+/** The session's audio as a stereo WAV in `RECORDING_CHANNELS` order. */
+export function recordingToWav(session: SessionRecord, audio: AudioChunkRecord[]): Uint8Array<ArrayBuffer> {
+  const tracks = RECORDING_CHANNELS.map((track) => renderTrack(session, audio, track));
+  const frames = Math.max(...tracks.map((samples) => samples.length));
+  const channels = tracks.map((samples) => {
+    const padded = new Float32Array(frames);
+    padded.set(samples);
+    return float32ToPcm16(padded);
+  });
+  return encodeWav(channels, RECORDING_SAMPLE_RATE);
+}
+
+export interface RecordingEvent {
+  startMs: number;
+  endMs: number;
+  kind: 'turn' | 'cue';
+  // 'You'/'Coach' for turns, the technique label for cues
+  label: string;
+  text: string;
+  tool?: string;
+  args?: Record<string, unknown> | null;
+  interrupted?: boolean;
+}
+
+/** Turns and cues with start and end times relative to the session start. */
+export function recordingEvents(session: SessionRecord): RecordingEvent[] {
+  const durationMs = sessionDuration(session);
+  return buildTimeline(session).map((event): RecordingEvent => {
+    if (event.kind === 'turn') {
+      const { turn } = event;
+      return {
+        startMs: event.at,
+        endMs: (turn.endedAt ?? session.endedAt) - session.startedAt,
+        kind: 'turn',
+        label: roleLabel(turn.role),
+        text: turn.text.trim(),
+        interrupted: turn.interrupted,
+      };
+    }
+    const { cue } = event;
+    return {
+      startMs: event.at,
+      endMs: Math.min(event.at + CUE_DISPLAY_MS, durationMs),
+      kind: 'cue',
+      label: techniqueInfo(cue.tool).label,
+      text: formatCueArgs(cue.args).join('\n'),
+      tool: cue.tool,
+      args: cue.args,
+    };
+  });
+}
+
+function vttTime(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+}
+
+export function recordingToWebVtt(session: SessionRecord): string {
+  const lines = ['WEBVTT', ''];
+  for (const event of recordingEvents(session)) {
+    // An empty line ends a cue, so blank lines in the text are dropped
+    const text = event.text.split('\n').filter((line) => line.trim() !== '');
+    const heading = event.kind === 'cue' ? event.label.toUpperCase() : event.label;
+    lines.push(
+      `${vttTime(event.startMs)} --> ${vttTime(Math.max(event.endMs, event.startMs))}`,
+      `<v ${heading}>${text.length > 0 ? text.join('\n') : '...'}${event.interrupted ? ' (interrupted)' : ''}`,
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+export function recordingToJson(session: SessionRecord): string {
+  return JSON.stringify({
+    sessionId: session.id,
+    startedAt: new Date(session.startedAt).toISOString(),
+    durationMs: sessionDuration(session),
+    sampleRate: RECORDING_SAMPLE_RATE,
+    channels: RECORDING_CHANNELS,
+    events: recordingEvents(session),
+  }, null, 2);
+}
+
+/** File name stem shared by the WAV and its sidecars. */
+export function recordingBaseName(session: SessionRecord): string {
+  return `session-${new Date(session.startedAt).toISOString().slice(0, 19).replace(/:/g, '-')}`;
+}
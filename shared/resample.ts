@@ -0,0 +1,106 @@
+/**
+ * Streaming linear-interpolation resampler used for microphone audio, with a
+ * low-pass filter in front when downsampling so content above the output's
+ * Nyquist frequency doesn't alias into the speech band. The web capture
+ * worklet (`web/public/worklets/pcm-capture-processor.js`) can't import
+ * modules and carries its own copy of this algorithm; the web test suite
+ * checks that both produce the same samples.
+ */
+
+// Low-pass cutoff as a fraction of the output rate, just below its Nyquist frequency (0.5)
+export const ANTI_ALIAS_CUTOFF = 0.45;
+// Q of the two biquad sections of a 4th-order Butterworth low-pass
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+/** Averages the channels of one block into a single channel. */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+/** Low-pass biquad section (RBJ Audio EQ Cookbook); its state carries across blocks. */
+export class LowPassBiquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(cutoff: number, sampleRate: number, q: number) {
+    const w0 = (2 * Math.PI * cutoff) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1;
+      this.x1 = x;
+      this.y2 = this.y1;
+      this.y1 = y;
+      output[i] = y;
+    }
+    return output;
+  }
+
+  reset() {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+}
+
+export class LinearResampler {
+  private readonly ratio: number;
+  // Anti-aliasing sections; none when upsampling or keeping the rate
+  private readonly filters: LowPassBiquad[];
+  // Fractional read position into the current block, carried across blocks
+  private position = 0;
+  // Last sample of the previous block, read as index -1
+  private lastSample = 0;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.ratio = inputRate / outputRate;
+    this.filters = inputRate > outputRate
+      ? BUTTERWORTH_Q.map((q) => new LowPassBiquad(ANTI_ALIAS_CUTOFF * outputRate, inputRate, q))
+      : [];
+  }
+
+  /** Resamples the next block; output length varies by a sample between blocks. */
+  process(block: Float32Array): Float32Array {
+    const input = this.filters.reduce((filtered, filter) => filter.process(filtered), block);
+    const output: number[] = [];
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index === 0 ? this.lastSample : input[index - 1];
+      const b = input[index];
+      output.push(a + (b - a) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    if (input.length > 0) this.lastSample = input[input.length - 1];
+    return Float32Array.from(output);
+  }
+
+  reset() {
+    this.filters.forEach((filter) => filter.reset());
+    this.position = 0;
+    this.lastSample = 0;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Negotiation scenarios the user can rehearse against. When a scenario is
+ * sent in `start_session`, Gemini plays the counterpart described by `prompt`
+ * and keeps coaching through `tool_call` cues; without one it runs as the
+ * hidden live coach.
+ */
+export interface Scenario {
+  id: string;
+  title: string;
+  role: string;
+  objective: string;
+  prompt: string;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'salary-increase',
+    title: 'Salary increase',
+    role: 'Manager',
+    objective: 'Convince the user to accept a lower salary increase than requested.',
+    prompt:
+      'You are a manager negotiating a salary increase with an employee. Your goal is to convince the employee to accept a lower salary increase than they requested. Use persuasive language and negotiation tactics to achieve your objective.',
+    builtIn: true,
+  },
+  {
+    id: 'car-purchase',
+    title: 'Car purchase',
+    role: 'Car salesperson',
+    objective: 'Convince the user to agree to the set price of 40,000 dollars.',
+    prompt:
+      'You are a car salesperson negotiating the price of a car with a customer. Your goal is to convince the customer to agree to the set price of 40,000 dollars. Use persuasive language and negotiation tactics to achieve your objective.',
+    builtIn: true,
+  },
+];
+
+// Header label when no scenario is selected
+export const LIVE_COACH_TITLE = 'Live coach';
+
+export function createScenario(fields: Omit<Scenario, 'id' | 'builtIn'>): Scenario {
+  return { ...fields, id: `custom-${Date.now()}` };
+}
+
+/** Returns an error message, or null when the scenario can be saved. */
+export function validateScenario(fields: Omit<Scenario, 'id' | 'builtIn'>): string | null {
+  if (!fields.title.trim()) return 'Title is required';
+  if (!fields.role.trim()) return 'Role is required';
+  if (!fields.prompt.trim()) return 'Prompt is required';
+  return null;
+}
+
+export function scenarioTitle(scenario: Scenario | null): string {
+  return scenario ? `${scenario.title} · ${scenario.role}` : LIVE_COACH_TITLE;
+}
@@ -0,0 +1,54 @@
+import type { CoachCue } from './cues';
+import type { Scenario } from './scenarios';
+import type { TranscriptTurn } from './transcript';
+
+/** A finished session as stored in the history. */
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  scenario: Scenario | null;
+  turns: TranscriptTurn[];
+  cues: CoachCue[]; // every cue of the session, unlike the capped live feed
+  debriefId: string | null;
+  hasAudio: boolean;
+}
+
+export type AudioTrack = 'mic' | 'coach';
+
+/** Base64 PCM16 chunk stamped with the time it was sent or received. */
+export interface AudioChunkRecord {
+  at: number;
+  track: AudioTrack;
+  data: string;
+}
+
+export const TRACK_SAMPLE_RATES: Record<AudioTrack, number> = {
+  mic: 16000,
+  coach: 24000,
+};
+
+// Number of sessions kept in history; older ones (and their audio) are deleted
+export const MAX_SESSIONS = 100;
+
+export type TimelineEvent =
+  | { at: number; kind: 'turn'; turn: TranscriptTurn }
+  | { at: number; kind: 'cue'; cue: CoachCue };
+
+/** Turns and cues of a session ordered by time, with `at` relative to the session start. */
+export function buildTimeline(session: SessionRecord): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    ...session.turns.map((turn) => ({ at: turn.startedAt - session.startedAt, kind: 'turn' as const, turn })),
+    ...session.cues.map((cue) => ({ at: cue.receivedAt - session.startedAt, kind: 'cue' as const, cue })),
+  ];
+  return events.sort((a, b) => a.at - b.at);
+}
+
+/** Events that have happened by `positionMs` into the replay. */
+export function eventsUntil(timeline: TimelineEvent[], positionMs: number): TimelineEvent[] {
+  return timeline.filter((event) => event.at <= positionMs);
+}
+
+export function sessionDuration(session: SessionRecord): number {
+  return session.endedAt - session.startedAt;
+}
@@ -0,0 +1,71 @@
+export type TranscriptRole = 'coach' | 'user';
+
+export interface TranscriptTurn {
+  id: string;
+  role: TranscriptRole;
+  text: string;
+  startedAt: number;
+  endedAt: number | null; // null while the turn is still receiving fragments
+  interrupted: boolean;
+}
+
+let turnCounter = 0;
+
+function createTurn(role: TranscriptRole, text: string, now: number): TranscriptTurn {
+  turnCounter += 1;
+  return { id: `${now}-${turnCounter}`, role, text, startedAt: now, endedAt: null, interrupted: false };
+}
+
+/**
+ * Appends a `transcription` fragment to the open turn for `role`, or starts a
+ * new turn when the last one has been closed by `turn_complete`/`interrupted`.
+ */
+export function appendFragment(
+  turns: TranscriptTurn[],
+  text: string,
+  role: TranscriptRole = 'coach',
+  now = Date.now()
+): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (last && last.role === role && last.endedAt === null) {
+    return [...turns.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...turns, createTurn(role, text, now)];
+}
+
+/** Closes the open turn, if any. */
+export function closeTurn(turns: TranscriptTurn[], interrupted = false, now = Date.now()): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (!last || last.endedAt !== null) return turns;
+  return [...turns.slice(0, -1), { ...last, endedAt: now, interrupted }];
+}
+
+/** Adds a finished turn, e.g. a typed `text_message`, closing any open turn first. */
+export function appendTurn(
+  turns: TranscriptTurn[],
+  text: string,
+  role: TranscriptRole = 'user',
+  now = Date.now()
+): TranscriptTurn[] {
+  const turn = { ...createTurn(role, text, now), endedAt: now };
+  return [...closeTurn(turns, false, now), turn];
+}
+
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+  coach: 'Coach',
+  user: 'You',
+};
+
+export function transcriptToMarkdown(turns: TranscriptTurn[], title = 'Negotiation transcript'): string {
+  const lines = [`# ${title}`, ''];
+  for (const turn of turns) {
+    const time = new Date(turn.startedAt).toLocaleTimeString();
+    const suffix = turn.interrupted ? ' _(interrupted)_' : '';
+    lines.push(`**${ROLE_LABELS[turn.role]}** (${time}): ${turn.text.trim()}${suffix}`, '');
+  }
+  return lines.join('\n');
+}
+
+export function roleLabel(role: TranscriptRole): string {
+  return ROLE_LABELS[role];
+}
@@ -0,0 +1,155 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import vm from "node:vm";
+import { bytesToPcm16, float32ToPcm16, pcm16ToFloat32 } from "@shared/pcm";
+import { LinearResampler, mixToMono } from "@shared/resample";
+import { decodeAudioFrame, encodeAudioFrame } from "@shared/protocol";
+
+const WORKLET_PATH = path.join(__dirname, "../public/worklets/pcm-capture-processor.js");
+// Regenerate with `UPDATE_GOLDEN=1 npm test` after an intended change to the worklet
+const GOLDEN_PATH = path.join(__dirname, "fixtures/capture-48k-to-16k.pcm");
+// Web Audio's render quantum
+const BLOCK_FRAMES = 128;
+
+interface CaptureProcessor {
+    process(inputs: Float32Array[][]): boolean;
+}
+
+/** Runs the worklet script in a stand-in AudioWorkletGlobalScope; returns a processor and the chunks it posts. */
+function createProcessor(contextRate: number, processorOptions = {}) {
+    const chunks: Int16Array[] = [];
+    let Processor: (new (options: unknown) => CaptureProcessor) | null = null;
+
+    class AudioWorkletProcessor {
+        port = { postMessage: (buffer: ArrayBuffer) => chunks.push(new Int16Array(buffer)) };
+    }
+
+    vm.runInNewContext(readFileSync(WORKLET_PATH, "utf8"), {
+        AudioWorkletProcessor,
+        Float32Array,
+        Int16Array,
+        Math,
+        sampleRate: contextRate,
+        registerProcessor: (_name: string, processor: typeof Processor) => {
+            Processor = processor;
+        },
+    });
+    if (!Processor) throw new Error("Worklet did not register a processor");
+    return { processor: new (Processor as new (options: unknown) => CaptureProcessor)({ processorOptions }), chunks };
+}
+
+/** Two tones and a slow sweep, so every interpolation fraction is exercised. */
+function testSignal(sampleRate: number, seconds: number): Float32Array {
+    return Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => {
+        const t = i / sampleRate;
+        return 0.5 * Math.sin(2 * Math.PI * 440 * t) + 0.3 * Math.sin(2 * Math.PI * (200 + 400 * t) * t);
+    });
+}
+
+function blocks(signal: Float32Array): Float32Array[] {
+    const result: Float32Array[] = [];
+    for (let i = 0; i < signal.length; i += BLOCK_FRAMES) result.push(signal.subarray(i, i + BLOCK_FRAMES));
+    return result;
+}
+
+function concat(chunks: Int16Array[]): Int16Array {
+    const result = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/** What the worklet should produce, from the shared modules. */
+function expectedCapture(channels: Float32Array[][], contextRate: number): Int16Array {
+    const resampler = new LinearResampler(contextRate, 16000);
+    return concat(channels.map(block => float32ToPcm16(resampler.process(mixToMono(block)))));
+}
+
+function maxDifference(a: Int16Array, b: Int16Array): number {
+    let max = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+    return max;
+}
+
+function capture(contextRate: number, channels: Float32Array[][]) {
+    const { processor, chunks } = createProcessor(contextRate);
+    for (const block of channels) processor.process([block]);
+    return concat(chunks);
+}
+
+describe("pcm-capture-processor worklet", () => {
+    it("posts 100ms chunks of 16kHz PCM16", () => {
+        const { processor, chunks } = createProcessor(48000);
+        for (const block of blocks(testSignal(48000, 1))) processor.process([[block]]);
+        expect(chunks).toHaveLength(10);
+        expect(chunks.every(chunk => chunk.length === 1600)).toBe(true);
+    });
+
+    it("honours targetSampleRate and chunkMs", () => {
+        const { processor, chunks } = createProcessor(48000, { targetSampleRate: 24000, chunkMs: 20 });
+        for (const block of blocks(testSignal(48000, 0.1))) processor.process([[block]]);
+        expect(chunks).toHaveLength(5);
+        expect(chunks[0]).toHaveLength(480);
+    });
+
+    it("ignores blocks without input", () => {
+        const { processor, chunks } = createProcessor(48000);
+        expect(processor.process([[]])).toBe(true);
+        expect(processor.process([])).toBe(true);
+        expect(chunks).toHaveLength(0);
+    });
+
+    // Float32 rounding in the shared resampler can move a sample by one step
+    it.each([48000, 44100, 16000])("matches the shared resampler at %i Hz", (contextRate) => {
+        const channels = blocks(testSignal(contextRate, 1)).map(block => [block]);
+        const actual = capture(contextRate, channels);
+        const expected = expectedCapture(channels, contextRate);
+        expect(actual.length).toBeGreaterThan(0);
+        expect(maxDifference(actual, expected.subarray(0, actual.length))).toBeLessThanOrEqual(1);
+    });
+
+    it("filters out content above 8 kHz instead of aliasing it", () => {
+        // A 12 kHz tone would fold down to 4 kHz at 16 kHz without the low-pass
+        const tone = Float32Array.from({ length: 48000 }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 12000 * i) / 48000));
+        const captured = pcm16ToFloat32(capture(48000, blocks(tone).map(block => [block])));
+        // Past the filter's settling time
+        const settled = captured.subarray(1600);
+        const rms = Math.sqrt(settled.reduce((sum, sample) => sum + sample * sample, 0) / settled.length);
+        // At least 20 dB down on the tone
+        expect(rms).toBeLessThan(0.1 * (0.5 / Math.SQRT2));
+    });
+
+    it("mixes stereo input to mono", () => {
+        const left = testSignal(48000, 0.2);
+        const right = left.map(sample => -sample * 0.5);
+        const channels = blocks(left).map((block, i) => [block, blocks(right)[i]]);
+        const actual = capture(48000, channels);
+        const expected = expectedCapture(channels, 48000);
+        expect(maxDifference(actual, expected.subarray(0, actual.length))).toBeLessThanOrEqual(1);
+    });
+
+    it("matches the golden capture", () => {
+        const actual = capture(48000, blocks(testSignal(48000, 1)).map(block => [block]));
+        if (process.env.UPDATE_GOLDEN) {
+            writeFileSync(GOLDEN_PATH, new Uint8Array(actual.buffer));
+        }
+        expect(actual).toEqual(bytesToPcm16(new Uint8Array(readFileSync(GOLDEN_PATH))));
+    });
+
+    it("survives the wire and decodes back to the resampled signal", () => {
+        const signal = testSignal(48000, 1);
+        const captured = capture(48000, blocks(signal).map(block => [block]));
+        const frame = decodeAudioFrame(encodeAudioFrame("audio_chunk", new Uint8Array(captured.buffer), 16000));
+        expect(frame.sampleRate).toBe(16000);
+
+        const decoded = pcm16ToFloat32(bytesToPcm16(frame.pcm));
+        const reference = new LinearResampler(48000, 16000).process(signal);
+        let maxError = 0;
+        for (let i = 0; i < decoded.length; i++) maxError = Math.max(maxError, Math.abs(decoded[i] - reference[i]));
+        // Half a PCM16 step, plus Float32 rounding
+        expect(maxError).toBeLessThanOrEqual(0.5 / 32768 + 1e-6);
+    });
+});
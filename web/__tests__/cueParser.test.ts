@@ -0,0 +1,51 @@
+import { formatSpokenCue, parseCue, reconcileSpokenCues, updateSpokenCues } from "@shared/cueParser";
+import type { CoachCue } from "@shared/cues";
+import type { TranscriptTurn } from "@shared/transcript";
+
+const turn = (text: string, id = "t1"): TranscriptTurn => ({ id, role: "coach", text, startedAt: 10_000, endedAt: null, interrupted: false });
+const toolCue = (tool: string, receivedAt: number, args: Record<string, unknown> | null = null): CoachCue => ({ id: `${tool}-${receivedAt}`, tool, args, receivedAt });
+
+describe("parseCue", () => {
+    it("reads the strict <technique>, <what to say> format", () => {
+        expect(parseCue("Mirror, fair price?")).toEqual({ technique: "suggest_mirroring", keyword: "Mirror", phrase: "fair price?", confidence: 0.9 });
+        expect(parseCue(" Ask, how am I supposed to do that?")).toMatchObject({ technique: "suggest_calibrated_questions", phrase: "how am I supposed to do that?" });
+        expect(parseCue("Pause.")).toMatchObject({ technique: "suggest_effective_pauses", phrase: "", confidence: 0.9 });
+    });
+
+    it("scores looser output lower", () => {
+        expect(parseCue("Label: it seems like you are upset.")?.confidence).toBe(0.7);
+        expect(parseCue("Mirroring, final offer?")?.confidence).toBeCloseTo(0.8);
+        expect(parseCue("Empathy I understand")?.confidence).toBe(0.4);
+    });
+
+    it("ignores text that doesn't start with a technique", () => {
+        expect(parseCue("Asking for more is fine here.")).toBeNull();
+        expect(parseCue("You are doing well.")).toBeNull();
+    });
+
+    it("formats the card text", () => {
+        expect(formatSpokenCue(parseCue("Mirror, fair price?")!)).toBe("MIRROR: fair price?");
+        expect(formatSpokenCue(parseCue("Pause.")!)).toBe("PAUSE");
+    });
+});
+
+describe("spoken cues", () => {
+    it("re-parses a turn as it grows and pairs it with the matching tool call", () => {
+        let cues = updateSpokenCues([], turn("Mirror"), []);
+        expect(cues).toHaveLength(1);
+        cues = updateSpokenCues(cues, turn("Mirror, fair price?"), [toolCue("suggest_mirroring", 11_000)]);
+        expect(cues).toEqual([expect.objectContaining({ phrase: "fair price?", confidence: 1, toolCueId: "suggest_mirroring-11000" })]);
+    });
+
+    it("takes the phrase from a tool call that arrives after the speech", () => {
+        const spoken = updateSpokenCues([], turn("Mirror."), []);
+        const [cue] = reconcileSpokenCues(spoken, [toolCue("suggest_labeling", 10_500), toolCue("suggest_mirroring", 12_000, { phrase: "final offer?" })]);
+        expect(cue).toMatchObject({ phrase: "final offer?", toolCueId: "suggest_mirroring-12000" });
+    });
+
+    it("leaves tool calls for other techniques or far apart in time unpaired", () => {
+        const spoken = updateSpokenCues([], turn("Label, it seems like you are upset."), []);
+        const [cue] = reconcileSpokenCues(spoken, [toolCue("suggest_mirroring", 10_000), toolCue("suggest_labeling", 30_000)]);
+        expect(cue.toolCueId).toBeNull();
+    });
+});
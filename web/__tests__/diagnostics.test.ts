@@ -0,0 +1,33 @@
+import { DiagnosticsRecorder, payloadBytes } from "@shared/diagnostics";
+
+describe("DiagnosticsRecorder", () => {
+    it("keeps only the last second of traffic, even without snapshots", () => {
+        const recorder = new DiagnosticsRecorder();
+        for (let at = 0; at < 60_000; at += 100) {
+            recorder.noteSent(3200, at);
+            recorder.noteReceived(4800, at);
+        }
+        expect(recorder["sent"].length).toBeLessThanOrEqual(11);
+        expect(recorder["received"].length).toBeLessThanOrEqual(11);
+
+        const snapshot = recorder.snapshot(0, 59_900);
+        expect(snapshot.sentBytesPerSec).toBe(11 * 3200);
+        expect(snapshot.totalSentBytes).toBe(600 * 3200);
+    });
+
+    it("measures mic-to-cue latency from the last speech", () => {
+        const recorder = new DiagnosticsRecorder();
+        recorder.noteMicChunk(0.8, 1000);
+        recorder.noteMicChunk(0.1, 1100);
+        recorder.noteCue(1600);
+        expect(recorder.snapshot(0, 1600).micToCue).toMatchObject({ count: 1, lastMs: 600 });
+    });
+});
+
+describe("payloadBytes", () => {
+    it("counts text frames in UTF-8 bytes", () => {
+        expect(payloadBytes("abc")).toBe(3);
+        expect(payloadBytes("é€")).toBe(5);
+        expect(payloadBytes(new ArrayBuffer(16))).toBe(16);
+    });
+});
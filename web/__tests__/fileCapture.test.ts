@@ -0,0 +1,43 @@
+import { FileCapture, toMicPcm } from "@shared/fileCapture";
+import { bytesToPcm16 } from "@shared/pcm";
+
+// One second of a 48 kHz stereo file: a constant left channel and a silent right one
+const stereoSecond = () => ({ sampleRate: 48000, channels: [new Float32Array(48000).fill(0.5), new Float32Array(48000)] });
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe("FileCapture", () => {
+    it("mixes the file to mono and resamples it to 16 kHz", () => {
+        const samples = bytesToPcm16(toMicPcm(stereoSecond()));
+        expect(samples).toHaveLength(16000);
+        expect(samples[8000]).toBe(8192);
+    });
+
+    it("streams 100ms chunks at the chosen speed, then stops", async () => {
+        const onEnded = jest.fn();
+        const monitor = { start: jest.fn(), stop: jest.fn() };
+        const capture = new FileCapture(async () => stereoSecond(), { speed: 2, monitor, onEnded });
+        const chunks: Uint8Array[] = [];
+
+        expect(await capture.prepare()).toBe(true);
+        await capture.start(pcm => chunks.push(pcm));
+        expect(monitor.start).toHaveBeenCalledWith(2);
+
+        jest.advanceTimersByTime(250);
+        expect(chunks).toHaveLength(5);
+        expect(chunks[0].byteLength).toBe(3200);
+
+        jest.advanceTimersByTime(1000);
+        expect(chunks).toHaveLength(10);
+        expect(onEnded).toHaveBeenCalledTimes(1);
+
+        await capture.stop();
+        expect(monitor.stop).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,73 @@
+import { JitterBuffer } from "@shared/jitterBuffer";
+
+// 50ms at 24kHz, filled with `value` so the output order can be checked
+const chunk = (value = 0) => new Uint8Array(new Int16Array(1200).fill(value).buffer);
+const CHUNK_MS = 50;
+
+/** Pushes `count` chunks arriving exactly on time; returns the buffers handed to the queue. */
+function pushSteady(buffer: JitterBuffer, count: number, start = 0, firstValue = 0) {
+    const out: Uint8Array[] = [];
+    for (let i = 0; i < count; i++) {
+        const ready = buffer.push(chunk(firstValue + i), start + i * CHUNK_MS);
+        if (ready) out.push(ready);
+    }
+    return out;
+}
+
+describe("JitterBuffer", () => {
+    it("waits for the pre-roll before the first buffer", () => {
+        const buffer = new JitterBuffer();
+        expect(pushSteady(buffer, 2)).toHaveLength(0);
+        expect(buffer.push(chunk(), 100)?.byteLength).toBe(3 * 2400);
+        expect(buffer.stats).toMatchObject({ targetMs: 150, jitterMs: 0 });
+    });
+
+    it("grows the pre-roll after an underrun", () => {
+        const buffer = new JitterBuffer();
+        expect(pushSteady(buffer, 3)).toHaveLength(1);
+
+        // The queue runs dry mid-turn
+        buffer.onBufferEnded();
+        expect(buffer.stats).toMatchObject({ underruns: 1, targetMs: 250 });
+
+        // Playback restarts only once the larger pre-roll is buffered
+        expect(pushSteady(buffer, 4, 150)).toHaveLength(0);
+        expect(buffer.push(chunk(), 350)?.byteLength).toBe(5 * 2400);
+    });
+
+    it("decays the pre-roll back once playback is stable", () => {
+        const buffer = new JitterBuffer();
+        pushSteady(buffer, 3);
+        buffer.onBufferEnded();
+        expect(buffer.targetMs).toBe(250);
+
+        // Turns that play out without running dry
+        let previous = buffer.targetMs;
+        for (let turn = 0; turn < 30; turn++) {
+            pushSteady(buffer, 6, turn * 1000);
+            buffer.flush();
+            while (buffer.stats.queuedBuffers > 0) buffer.onBufferEnded();
+            expect(buffer.targetMs).toBeLessThanOrEqual(previous);
+            previous = buffer.targetMs;
+        }
+        expect(buffer.stats.underruns).toBe(1);
+        expect(buffer.targetMs).toBeLessThan(160);
+    });
+
+    it("coalesces on overflow without dropping any audio", () => {
+        const buffer = new JitterBuffer({ maxQueuedBuffers: 3 });
+        // The native queue never drains
+        const out = pushSteady(buffer, 40, 0, 1);
+        const rest = buffer.flush();
+        if (rest) out.push(rest);
+
+        expect(buffer.stats.overflows).toBeGreaterThan(0);
+        // Buffers past the limit hold 500ms instead of one chunk each
+        expect(out.slice(3).some(buffered => buffered.byteLength === 10 * 2400)).toBe(true);
+
+        const samples = out.flatMap(buffered => Array.from(new Int16Array(buffered.buffer)));
+        expect(samples).toHaveLength(40 * 1200);
+        const values = samples.filter((_, i) => i % 1200 === 0);
+        expect(values).toEqual(Array.from({ length: 40 }, (_, i) => i + 1));
+    });
+});
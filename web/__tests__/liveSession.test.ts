@@ -0,0 +1,303 @@
+import { LiveSession, MODEL_READY_TIMEOUT_MS, SessionError, type CaptureAdapter, type PlaybackAdapter } from "@shared/liveSession";
+import { decodeAudioFrame, type ClientMessage, type ServerMessage } from "@shared/protocol";
+import { MAX_RECONNECT_ATTEMPTS } from "@shared/reconnect";
+import { BUILT_IN_SCENARIOS } from "@shared/scenarios";
+
+/** In-memory WebSocket; the test plays the server's side. */
+class FakeWebSocket {
+    static readonly OPEN = 1;
+    static readonly CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = 0;
+    binaryType = "blob";
+    sent: (string | ArrayBuffer)[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+
+    constructor(readonly url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(payload: string | ArrayBuffer) {
+        this.sent.push(payload);
+    }
+
+    close() {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onclose?.();
+    }
+
+    get messages(): ClientMessage[] {
+        return this.sent.filter((payload): payload is string => typeof payload === "string").map(payload => JSON.parse(payload));
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+    }
+
+    receive(message: ServerMessage) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+}
+
+class FakeCapture implements CaptureAdapter {
+    onChunk: ((pcm: Uint8Array) => void) | null = null;
+    constructor(private readonly available = true) {}
+    prepare = jest.fn(async () => this.available);
+    start = jest.fn(async (onChunk: (pcm: Uint8Array) => void) => {
+        this.onChunk = onChunk;
+    });
+    stop = jest.fn(async () => {
+        this.onChunk = null;
+    });
+}
+
+class FakePlayback implements PlaybackAdapter {
+    queuedMs = 0;
+    enqueued: Uint8Array[] = [];
+    prepare = jest.fn(async () => {});
+    enqueue = jest.fn((pcm: Uint8Array) => {
+        this.enqueued.push(pcm);
+        this.queuedMs += pcm.byteLength / 48;
+    });
+    flush = jest.fn();
+    stop = jest.fn(() => {
+        this.queuedMs = 0;
+    });
+    close = jest.fn(async () => {});
+}
+
+const chunk = () => new Uint8Array(3200);
+
+// Lets awaited adapter calls finish; timers are fake, so only microtasks run
+const settle = async () => {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const ready = (socket: FakeWebSocket) =>
+    socket.receive({ type: "connected", message: "ready", protocol_version: 5, binary_audio: true });
+
+async function openSession(capture = new FakeCapture()) {
+    const playback = new FakePlayback();
+    const session = new LiveSession({ capture, playback, platform: "test" }, { backendUrl: "ws://coach.test/ws" });
+    await session.connect();
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.open();
+    return { session, socket, capture, playback };
+}
+
+async function start(capture = new FakeCapture()) {
+    const started = await openSession(capture);
+    ready(started.socket);
+    await settle();
+    return started;
+}
+
+beforeEach(() => {
+    FakeWebSocket.instances = [];
+    (global as unknown as { WebSocket: unknown }).WebSocket = FakeWebSocket;
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("LiveSession", () => {
+    it("starts the microphone only once the coach is ready", async () => {
+        const { session, socket, capture } = await openSession();
+        expect(socket.messages[0]).toMatchObject({ type: "start_session", binary_audio: true });
+        expect(session.getState()).toMatchObject({ phase: "socket-open", isConnected: true });
+        expect(capture.start).not.toHaveBeenCalled();
+
+        ready(socket);
+        await settle();
+        expect(capture.start).toHaveBeenCalledTimes(1);
+        expect(session.getState()).toMatchObject({ phase: "streaming", hasMicrophone: true, status: "Connected - Listening..." });
+    });
+
+    it("continues text-only without a microphone", async () => {
+        const { session, socket, capture } = await start(new FakeCapture(false));
+        expect(capture.start).not.toHaveBeenCalled();
+        expect(session.getState().status).toBe("Connected - no microphone, type to the coach");
+
+        session.sendTextMessage("Hello");
+        expect(socket.messages.at(-1)).toEqual({ type: "text_message", text: "Hello" });
+    });
+
+    it("stays speaking until the queued audio has played", async () => {
+        const { session, socket, playback } = await start();
+        socket.receive({ type: "audio_response", data: Buffer.from(new Uint8Array(4800)).toString("base64") });
+        expect(playback.enqueued).toHaveLength(1);
+        expect(session.getState().isSpeaking).toBe(true);
+
+        socket.receive({ type: "turn_complete" });
+        expect(playback.flush).toHaveBeenCalled();
+        jest.advanceTimersByTime(50);
+        expect(session.getState().isSpeaking).toBe(true);
+        jest.advanceTimersByTime(100);
+        expect(session.getState().isSpeaking).toBe(false);
+    });
+
+    it("stops playback at once on interruption", async () => {
+        const { session, socket, playback } = await start();
+        socket.receive({ type: "audio_response", data: Buffer.from(new Uint8Array(4800)).toString("base64") });
+        socket.receive({ type: "interrupted" });
+        expect(playback.stop).toHaveBeenCalled();
+        expect(session.getState().isSpeaking).toBe(false);
+        expect(session.getState().turns).toEqual([]);
+    });
+
+    it("buffers mic audio while reconnecting and resumes the session", async () => {
+        const { session, socket, capture } = await start();
+        socket.receive({ type: "session_resumption", handle: "handle-1" });
+        socket.close();
+        expect(session.getState()).toMatchObject({ isConnected: false, isReconnecting: true });
+
+        capture.onChunk?.(chunk());
+        jest.runOnlyPendingTimers();
+        const reopened = FakeWebSocket.instances.at(-1)!;
+        expect(reopened).not.toBe(socket);
+        reopened.open();
+        ready(reopened);
+        await settle();
+
+        expect(reopened.messages[0]).toMatchObject({ type: "start_session", resume_handle: "handle-1" });
+        // Binary audio was negotiated again, so the buffered chunk goes out as a frame too
+        const frames = reopened.sent.filter((payload): payload is ArrayBuffer => payload instanceof ArrayBuffer).map(decodeAudioFrame);
+        expect(frames).toHaveLength(1);
+        expect(frames[0].pcm.byteLength).toBe(3200);
+        expect(reopened.messages.filter(message => message.type === "audio_chunk")).toEqual([]);
+        expect(capture.start).toHaveBeenCalledTimes(1);
+        expect(session.getState().status).toBe("Reconnected - Listening...");
+    });
+
+    it("sends binary mic frames only while talking in push-to-talk", async () => {
+        const { session, socket, capture } = await start();
+        session.configure({ pushToTalk: true });
+        capture.onChunk?.(chunk());
+        expect(socket.sent.filter(payload => payload instanceof ArrayBuffer)).toHaveLength(0);
+
+        session.startTalking();
+        capture.onChunk?.(chunk());
+        session.stopTalking();
+        const frames = socket.sent.filter((payload): payload is ArrayBuffer => payload instanceof ArrayBuffer).map(decodeAudioFrame);
+        expect(frames).toHaveLength(1);
+        expect(frames[0].sampleRate).toBe(16000);
+        expect(socket.messages.at(-1)).toEqual({ type: "end_of_turn" });
+    });
+
+    it("saves the session and returns the debrief on disconnect", async () => {
+        const capture = new FakeCapture();
+        const { session, socket } = await start(capture);
+        const onSessionEnd = jest.fn();
+        session.configure({ onSessionEnd });
+        socket.receive({ type: "tool_call", tool: "suggest_labeling", args: null });
+
+        const debrief = session.disconnect();
+        await settle();
+        expect(capture.stop).toHaveBeenCalled();
+        expect(socket.messages.at(-1)).toEqual({ type: "request_summary" });
+        socket.receive({ type: "tool_call", tool: "summarize_negotiation", args: { final_terms: "Deal" } });
+
+        expect(await debrief).toMatchObject({ finalTerms: "Deal", summaryAvailable: true });
+        expect(onSessionEnd).toHaveBeenCalledWith(expect.objectContaining({ cues: [expect.objectContaining({ tool: "suggest_labeling" })] }), []);
+        expect(session.getState()).toMatchObject({ phase: "idle", isConnected: false, status: "Disconnected" });
+    });
+
+    it("fails with the server's error and can connect again", async () => {
+        const { session, socket } = await start();
+        socket.receive({ type: "error", message: "Gemini quota exceeded" });
+
+        const { phase, error, status } = session.getState();
+        expect(phase).toBe("error");
+        expect(error).toBeInstanceOf(SessionError);
+        expect(error?.reason).toBe("server");
+        expect(status).toBe("Server error: Gemini quota exceeded");
+        expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+
+        await session.connect();
+        expect(session.getState()).toMatchObject({ phase: "idle", error: null });
+        expect(FakeWebSocket.instances).toHaveLength(2);
+    });
+
+    it("fails on a server protocol newer than the client's", async () => {
+        const { session, socket, capture } = await openSession();
+        socket.receive({ type: "connected", message: "ready", protocol_version: 99 });
+        await settle();
+
+        expect(session.getState()).toMatchObject({ phase: "error", status: expect.stringContaining("Server protocol v99 is not supported") });
+        expect(session.getState().error?.reason).toBe("protocol");
+        expect(capture.start).not.toHaveBeenCalled();
+        expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    });
+
+    it("times out when the coach never becomes ready", async () => {
+        const { session, capture } = await openSession();
+        jest.advanceTimersByTime(MODEL_READY_TIMEOUT_MS);
+        expect(session.getState().error?.reason).toBe("model-timeout");
+        expect(capture.start).not.toHaveBeenCalled();
+    });
+
+    it("retries a resume that never becomes ready, then gives up", async () => {
+        const { session, socket } = await start();
+        socket.close();
+        for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+            jest.runOnlyPendingTimers();
+            FakeWebSocket.instances.at(-1)!.open();
+            jest.advanceTimersByTime(MODEL_READY_TIMEOUT_MS);
+            if (attempt < MAX_RECONNECT_ATTEMPTS) {
+                expect(session.getState()).toMatchObject({ phase: "idle", isReconnecting: true, error: null });
+            }
+        }
+
+        expect(FakeWebSocket.instances).toHaveLength(MAX_RECONNECT_ATTEMPTS + 1);
+        expect(session.getState().error?.reason).toBe("model-timeout");
+    });
+
+    it("switches the audio input at the next connect", async () => {
+        const { session, socket, capture } = await start();
+        const file = new FakeCapture();
+        session.setCapture(file);
+        expect(file.prepare).not.toHaveBeenCalled();
+
+        const ended = session.disconnect();
+        await settle();
+        socket.close();
+        await ended;
+        await session.connect();
+        FakeWebSocket.instances.at(-1)!.open();
+        ready(FakeWebSocket.instances.at(-1)!);
+        await settle();
+        expect(file.start).toHaveBeenCalledTimes(1);
+        expect(capture.start).toHaveBeenCalledTimes(1);
+    });
+
+    it("reads spoken cues from the coach but not from a practice counterpart", async () => {
+        const { session, socket } = await start();
+        socket.receive({ type: "transcription", text: "Mirror, fair price?" });
+        expect(session.getState().spokenCues).toEqual([expect.objectContaining({ technique: "suggest_mirroring", phrase: "fair price?" })]);
+
+        const practice = await start();
+        practice.session.configure({ scenario: BUILT_IN_SCENARIOS[0] });
+        practice.socket.receive({ type: "transcription", text: "Ask, why should I lower the price?" });
+        expect(practice.session.getState().turns).toHaveLength(1);
+        expect(practice.session.getState().spokenCues).toEqual([]);
+    });
+
+    it("reports an unreachable backend without retrying", async () => {
+        const session = new LiveSession({ capture: new FakeCapture(), playback: new FakePlayback(), platform: "test" }, { backendUrl: "ws://coach.test/ws" });
+        await session.connect();
+        FakeWebSocket.instances[0].close();
+        expect(session.getState()).toMatchObject({ phase: "error", status: "Could not reach the coach server at ws://coach.test/ws" });
+        jest.runOnlyPendingTimers();
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+});
@@ -0,0 +1,76 @@
+import { MicCaptureAdapter } from "../audio/micCapture";
+
+/** A getUserMedia stream that remembers the device it was opened on. */
+const fakeStream = (deviceId: string) => {
+    const track = { stop: jest.fn() };
+    return { deviceId, track, getTracks: () => [track] };
+};
+type FakeStream = ReturnType<typeof fakeStream>;
+
+// Streams the worklet was connected to, in order
+let captured: FakeStream[] = [];
+let opened: FakeStream[] = [];
+
+class FakeAudioContext {
+    state = "running";
+    audioWorklet = { addModule: async () => {} };
+
+    createMediaStreamSource(stream: FakeStream) {
+        captured.push(stream);
+        return { connect() {}, disconnect() {} };
+    }
+
+    close() {}
+}
+
+class FakeWorkletNode {
+    port = { onmessage: null };
+    disconnect() {}
+}
+
+const getUserMedia = jest.fn(async ({ audio }: { audio: MediaTrackConstraints }) => {
+    const stream = fakeStream((audio.deviceId as ConstrainDOMStringParameters | undefined)?.exact as string ?? "");
+    opened.push(stream);
+    return stream;
+});
+
+beforeAll(() => {
+    Object.assign(globalThis, { window: { AudioContext: FakeAudioContext }, AudioWorkletNode: FakeWorkletNode });
+    Object.defineProperty(globalThis, "navigator", { value: { mediaDevices: { getUserMedia } }, configurable: true });
+});
+
+beforeEach(() => {
+    captured = [];
+    opened = [];
+    getUserMedia.mockClear();
+});
+
+describe("MicCaptureAdapter", () => {
+    it("captures from the device picked between prepare and start", async () => {
+        const adapter = new MicCaptureAdapter();
+        expect(await adapter.prepare()).toBe(true);
+        await adapter.switchDevice("usb");
+        await adapter.start(() => {});
+
+        expect(captured.map(stream => stream.deviceId)).toEqual(["usb"]);
+        expect(opened[0].track.stop).toHaveBeenCalled();
+    });
+
+    it("switches the captured stream mid-session", async () => {
+        const adapter = new MicCaptureAdapter("usb");
+        await adapter.prepare();
+        await adapter.start(() => {});
+        await adapter.switchDevice("");
+
+        expect(captured.map(stream => stream.deviceId)).toEqual(["usb", ""]);
+        expect(opened[0].track.stop).toHaveBeenCalled();
+    });
+
+    it("doesn't reopen the stream for the device already in use", async () => {
+        const adapter = new MicCaptureAdapter("usb");
+        await adapter.prepare();
+        await adapter.switchDevice("usb");
+
+        expect(getUserMedia).toHaveBeenCalledTimes(1);
+    });
+});
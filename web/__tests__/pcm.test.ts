@@ -0,0 +1,78 @@
+import {
+    base64ToBytes,
+    bytesToBase64,
+    bytesToPcm16,
+    decodePcm16Base64,
+    float32ToPcm16,
+    pcm16ToFloat32,
+} from "@shared/pcm";
+import { decodeAudioFrame, encodeAudioFrame, ProtocolError } from "@shared/protocol";
+
+// Every int16 value, in order
+const allSamples = () => Int16Array.from({ length: 65536 }, (_, i) => i - 32768);
+
+describe("PCM16 <-> Float32", () => {
+    it("round-trips every int16 value", () => {
+        const samples = allSamples();
+        expect(float32ToPcm16(pcm16ToFloat32(samples))).toEqual(samples);
+    });
+
+    it("scales by 32768 in both directions", () => {
+        const floats = pcm16ToFloat32(Int16Array.from([-32768, -16384, 0, 16384, 32767]));
+        expect(Array.from(floats)).toEqual([-1, -0.5, 0, 0.5, 32767 / 32768]);
+    });
+
+    it("clips out-of-range floats", () => {
+        const samples = float32ToPcm16(Float32Array.from([-2, -1, 1, 2]));
+        expect(Array.from(samples)).toEqual([-32768, -32768, 32767, 32767]);
+    });
+
+    it("decodes base64 the same way as bytes", () => {
+        const bytes = new Uint8Array(allSamples().buffer);
+        const base64 = bytesToBase64(bytes);
+        expect(decodePcm16Base64(base64)).toEqual(pcm16ToFloat32(bytesToPcm16(bytes)));
+    });
+});
+
+describe("base64", () => {
+    it("matches Node's encoder across slice boundaries", () => {
+        // Longer than the 32 KiB slices bytesToBase64 encodes in
+        const bytes = Uint8Array.from({ length: 100_003 }, (_, i) => (i * 31 + 7) & 0xff);
+        const base64 = bytesToBase64(bytes);
+        expect(base64).toBe(Buffer.from(bytes).toString("base64"));
+        expect(base64ToBytes(base64)).toEqual(bytes);
+    });
+});
+
+describe("bytesToPcm16", () => {
+    it("reads little-endian samples", () => {
+        expect(Array.from(bytesToPcm16(Uint8Array.from([0x01, 0x00, 0xff, 0xff, 0x00, 0x80])))).toEqual([1, -1, -32768]);
+    });
+
+    it("copies misaligned views", () => {
+        const buffer = Uint8Array.from([0, 0x34, 0x12, 0xcd, 0xab]);
+        expect(Array.from(bytesToPcm16(buffer.subarray(1)))).toEqual([0x1234, -0x5433]);
+    });
+
+    it("ignores a trailing odd byte", () => {
+        expect(bytesToPcm16(Uint8Array.from([1, 0, 2])).length).toBe(1);
+    });
+});
+
+describe("audio frames", () => {
+    it("round-trips PCM, rate and timestamp", () => {
+        const pcm = new Uint8Array(allSamples().buffer);
+        const frame = decodeAudioFrame(encodeAudioFrame("audio_response", pcm, 24000, 1234.5));
+        expect(frame.type).toBe("audio_response");
+        expect(frame.sampleRate).toBe(24000);
+        expect(frame.timestamp).toBe(1234.5);
+        expect(bytesToPcm16(frame.pcm)).toEqual(allSamples());
+    });
+
+    it("rejects malformed frames", () => {
+        expect(() => decodeAudioFrame(new ArrayBuffer(5))).toThrow(ProtocolError);
+        const unknown = new Uint8Array(encodeAudioFrame("audio_chunk", new Uint8Array(2), 16000));
+        unknown[0] = 9;
+        expect(() => decodeAudioFrame(unknown.buffer)).toThrow(/Unknown audio frame type/);
+    });
+});
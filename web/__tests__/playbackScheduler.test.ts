@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { bytesToPcm16, pcm16ToFloat32 } from "@shared/pcm";
+import { PlaybackScheduler } from "../audio/playbackScheduler";
+
+/** Just enough of an AudioBufferSourceNode to record what was scheduled. */
+class FakeSource {
+    buffer: { duration: number; data: Float32Array } | null = null;
+    startedAt: number | null = null;
+    stopped = false;
+    onended: (() => void) | null = null;
+
+    connect() {}
+    disconnect() {}
+
+    start(when: number) {
+        this.startedAt = when;
+    }
+
+    stop() {
+        if (this.stopped) throw new Error("InvalidStateError");
+        this.stopped = true;
+    }
+}
+
+class FakeAudioContext {
+    currentTime = 0;
+    destination = {};
+    sources: FakeSource[] = [];
+
+    createBuffer(_channels: number, length: number, sampleRate: number) {
+        const data = new Float32Array(length);
+        return { duration: length / sampleRate, data, getChannelData: () => data };
+    }
+
+    createBufferSource() {
+        const source = new FakeSource();
+        this.sources.push(source);
+        return source;
+    }
+}
+
+const setup = () => {
+    const context = new FakeAudioContext();
+    const scheduler = new PlaybackScheduler(context as unknown as BaseAudioContext);
+    return { context, scheduler };
+};
+
+// 100ms at 24kHz
+const chunk = (value = 0) => new Uint8Array(new Int16Array(2400).fill(value).buffer);
+
+describe("PlaybackScheduler", () => {
+    it("schedules chunks back to back", () => {
+        const { context, scheduler } = setup();
+        expect(scheduler.schedule(chunk())).toBe(0);
+        expect(scheduler.schedule(chunk())).toBeCloseTo(0.1);
+        expect(scheduler.schedule(chunk())).toBeCloseTo(0.2);
+        expect(scheduler.queuedSeconds).toBeCloseTo(0.3);
+        expect(context.sources.map(source => source.startedAt)).toHaveLength(3);
+    });
+
+    it("starts immediately after an underrun", () => {
+        const { context, scheduler } = setup();
+        scheduler.schedule(chunk());
+        context.currentTime = 0.5;
+        expect(scheduler.queuedSeconds).toBe(0);
+        expect(scheduler.schedule(chunk())).toBe(0.5);
+    });
+
+    it("stops everything on interruption and restarts from now", () => {
+        const { context, scheduler } = setup();
+        scheduler.schedule(chunk());
+        scheduler.schedule(chunk());
+        context.sources[0].onended?.();
+        context.sources[0].stopped = true;
+        expect(scheduler.activeSources).toBe(1);
+
+        context.currentTime = 0.05;
+        scheduler.stop();
+        expect(context.sources.every(source => source.stopped)).toBe(true);
+        expect(scheduler.activeSources).toBe(0);
+        expect(scheduler.queuedSeconds).toBe(0);
+        expect(scheduler.schedule(chunk())).toBe(0.05);
+    });
+
+    it("plays the golden capture back unchanged", () => {
+        const bytes = new Uint8Array(readFileSync(path.join(__dirname, "fixtures/capture-48k-to-16k.pcm")));
+        const context = new FakeAudioContext();
+        const scheduler = new PlaybackScheduler(context as unknown as BaseAudioContext, undefined, 16000);
+        scheduler.schedule(bytes);
+
+        const played = context.sources[0].buffer!;
+        expect(played.duration).toBeCloseTo(1);
+        expect(played.data).toEqual(pcm16ToFloat32(bytesToPcm16(bytes)));
+    });
+});
@@ -0,0 +1,72 @@
+import {
+    AUDIO_FRAME_HEADER_BYTES,
+    PROTOCOL_VERSION,
+    ProtocolError,
+    decodeAudioFrame,
+    encodeAudioFrame,
+    isCompatibleVersion,
+    parseServerMessage,
+} from "@shared/protocol";
+
+describe("parseServerMessage", () => {
+    it("returns valid messages as they are", () => {
+        expect(parseServerMessage('{"type":"transcription","text":"Mirror, fair price?"}')).toEqual({ type: "transcription", text: "Mirror, fair price?" });
+        expect(parseServerMessage('{"type":"connected","message":"ready","protocol_version":5,"binary_audio":true}')).toMatchObject({ binary_audio: true });
+    });
+
+    it("defaults missing tool_call args to null", () => {
+        expect(parseServerMessage('{"type":"tool_call","tool":"suggest_labeling"}')).toEqual({ type: "tool_call", tool: "suggest_labeling", args: null });
+    });
+
+    it.each([
+        ["invalid JSON", "{not json", "Message is not valid JSON"],
+        ["a payload with no type", '{"text":"hi"}', "Message has no type"],
+        ["a non-object payload", "42", "Message has no type"],
+        ["an unknown type", '{"type":"hello"}', 'Unknown message type "hello"'],
+        ["a missing required field", '{"type":"audio_response"}', 'Malformed "audio_response" message'],
+        ["a field of the wrong type", '{"type":"tool_call","tool":"suggest_labeling","args":[1]}', 'Malformed "tool_call" message'],
+    ])("rejects %s", (_case, raw, message) => {
+        expect(() => parseServerMessage(raw)).toThrow(message);
+        expect(() => parseServerMessage(raw)).toThrow(ProtocolError);
+    });
+});
+
+describe("audio frames", () => {
+    it("round-trips the header and samples", () => {
+        const pcm = new Uint8Array(new Int16Array([1, -2, 32767, -32768]).buffer);
+        const frame = decodeAudioFrame(encodeAudioFrame("audio_response", pcm, 24000, 1_700_000_000_123.5));
+        expect(frame).toMatchObject({ type: "audio_response", sampleRate: 24000, timestamp: 1_700_000_000_123.5 });
+        expect(Array.from(new Int16Array(frame.pcm.slice().buffer))).toEqual([1, -2, 32767, -32768]);
+    });
+
+    it("accepts a frame with no samples", () => {
+        expect(decodeAudioFrame(encodeAudioFrame("audio_chunk", new Uint8Array(0), 16000)).pcm.byteLength).toBe(0);
+    });
+
+    it("rejects frames shorter than the header", () => {
+        expect(() => decodeAudioFrame(new ArrayBuffer(AUDIO_FRAME_HEADER_BYTES - 1))).toThrow(ProtocolError);
+    });
+
+    it("rejects frames with half a sample", () => {
+        expect(() => decodeAudioFrame(new ArrayBuffer(AUDIO_FRAME_HEADER_BYTES + 3))).toThrow("Malformed audio frame of 15 bytes");
+    });
+
+    it("rejects unknown frame types", () => {
+        const frame = encodeAudioFrame("audio_chunk", new Uint8Array(4), 16000);
+        new DataView(frame).setUint8(0, 9);
+        expect(() => decodeAudioFrame(frame)).toThrow("Unknown audio frame type 9");
+    });
+});
+
+describe("isCompatibleVersion", () => {
+    it("accepts the current and older servers", () => {
+        expect(isCompatibleVersion(PROTOCOL_VERSION)).toBe(true);
+        expect(isCompatibleVersion(2)).toBe(true);
+        // Servers that predate versioning
+        expect(isCompatibleVersion(undefined)).toBe(true);
+    });
+
+    it("rejects servers newer than the client", () => {
+        expect(isCompatibleVersion(PROTOCOL_VERSION + 1)).toBe(false);
+    });
+});
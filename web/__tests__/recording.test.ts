@@ -0,0 +1,76 @@
+import { bytesToBase64 } from "@shared/pcm";
+import { RECORDING_SAMPLE_RATE, recordingToJson, recordingToWav, recordingToWebVtt, renderTrack } from "@shared/recording";
+import type { AudioChunkRecord, SessionRecord } from "@shared/sessions";
+
+const START = 1_700_000_000_000;
+
+const session: SessionRecord = {
+    id: "s1",
+    startedAt: START,
+    endedAt: START + 2000,
+    scenario: null,
+    turns: [
+        { id: "t1", role: "user", text: "Is that a fair price?", startedAt: START + 100, endedAt: START + 900, interrupted: false },
+        { id: "t2", role: "coach", text: "Mirror it.", startedAt: START + 1000, endedAt: null, interrupted: false },
+    ],
+    cues: [{ id: "c1", tool: "suggest_mirroring", args: { phrase: "fair price?" }, receivedAt: START + 950 }],
+    debriefId: null,
+    hasAudio: true,
+};
+
+// `samples` of a constant PCM16 value, base64 encoded
+const constant = (value: number, samples: number) => bytesToBase64(new Uint8Array(new Int16Array(samples).fill(value).buffer));
+
+describe("session recording export", () => {
+    it("places coach chunks back to back when they arrive faster than they play", () => {
+        const audio: AudioChunkRecord[] = [
+            { at: START + 500, track: "coach", data: constant(1000, 2400) },
+            { at: START + 510, track: "coach", data: constant(2000, 2400) },
+        ];
+        const coach = renderTrack(session, audio, "coach");
+        expect(coach).toHaveLength(2 * RECORDING_SAMPLE_RATE);
+        expect(coach[12000 - 1]).toBe(0);
+        expect(coach[12000]).toBeCloseTo(1000 / 32768);
+        expect(coach[12000 + 2400]).toBeCloseTo(2000 / 32768);
+        expect(coach[12000 + 4800]).toBe(0);
+    });
+
+    it("writes a stereo 24 kHz WAV with the mic resampled on the left", () => {
+        const audio: AudioChunkRecord[] = [
+            { at: START, track: "mic", data: constant(8000, 1600) },
+            { at: START + 1000, track: "coach", data: constant(-8000, 2400) },
+        ];
+        const wav = recordingToWav(session, audio);
+        const view = new DataView(wav.buffer);
+        const text = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+
+        expect([text(0), text(8), text(12), text(36)]).toEqual(["RIFF", "WAVE", "fmt ", "data"]);
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(RECORDING_SAMPLE_RATE);
+        expect(view.getUint32(40, true)).toBe(2 * RECORDING_SAMPLE_RATE * 4);
+
+        const frame = (index: number) => [view.getInt16(44 + index * 4, true), view.getInt16(46 + index * 4, true)];
+        expect(frame(1000)).toEqual([8000, 0]);
+        expect(frame(24000)).toEqual([0, -8000]);
+    });
+
+    it("aligns turns and cues in the WebVTT and JSON sidecars", () => {
+        expect(recordingToWebVtt(session)).toBe([
+            "WEBVTT",
+            "",
+            "00:00:00.100 --> 00:00:00.900",
+            "<v You>Is that a fair price?",
+            "",
+            "00:00:00.950 --> 00:00:02.000",
+            "<v MIRROR>phrase: fair price?",
+            "",
+            "00:00:01.000 --> 00:00:02.000",
+            "<v Coach>Mirror it.",
+            "",
+        ].join("\n"));
+
+        const sidecar = JSON.parse(recordingToJson(session));
+        expect(sidecar).toMatchObject({ sessionId: "s1", durationMs: 2000, channels: ["mic", "coach"] });
+        expect(sidecar.events[1]).toMatchObject({ kind: "cue", startMs: 950, tool: "suggest_mirroring", args: { phrase: "fair price?" } });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import TurnControls from "../components/TurnControls";
+
+// Lets React's act() flush updates outside a test renderer
+(globalThis as unknown as { IS_REACT_ACT_ENVIRONMENT: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+function render(props: Partial<Parameters<typeof TurnControls>[0]> = {}) {
+    const handlers = { onPushToTalkChange: jest.fn(), onTalkStart: jest.fn(), onTalkEnd: jest.fn(), onAskCoach: jest.fn() };
+    act(() => {
+        root.render(<TurnControls pushToTalk={false} isTalking={false} disabled={false} {...handlers} {...props} />);
+    });
+    return handlers;
+}
+
+const press = (target: EventTarget, key: string, code = key) => {
+    const event = new KeyboardEvent("keydown", { key, code, bubbles: true, cancelable: true });
+    act(() => {
+        target.dispatchEvent(event);
+    });
+    return event;
+};
+
+beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+});
+
+afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+});
+
+describe("TurnControls shortcuts", () => {
+    it("asks the coach on Enter outside any control", () => {
+        const { onAskCoach } = render();
+        const event = press(document.body, "Enter");
+        expect(onAskCoach).toHaveBeenCalledTimes(1);
+        expect(event.defaultPrevented).toBe(true);
+    });
+
+    // Browsers click a focused button on Enter/Space unless keydown is cancelled
+    it("leaves Enter and Space to a focused button, so it still activates", () => {
+        const { onAskCoach, onTalkStart } = render({ pushToTalk: true });
+        const button = document.createElement("button");
+        document.body.appendChild(button);
+        button.focus();
+
+        expect(press(button, "Enter").defaultPrevented).toBe(false);
+        expect(press(button, " ", "Space").defaultPrevented).toBe(false);
+        expect(onAskCoach).not.toHaveBeenCalled();
+        expect(onTalkStart).not.toHaveBeenCalled();
+        button.remove();
+    });
+
+    it("leaves Enter to links and role=button elements", () => {
+        const { onAskCoach } = render();
+        const link = document.createElement("a");
+        const custom = document.createElement("div");
+        custom.setAttribute("role", "button");
+        document.body.append(link, custom);
+
+        press(link, "Enter");
+        press(custom, "Enter");
+        expect(onAskCoach).not.toHaveBeenCalled();
+        link.remove();
+        custom.remove();
+    });
+});
@@ -0,0 +1,35 @@
+"use client";
+
+// setSinkId on AudioContext (Chrome 110+) isn't in the DOM typings yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/** Constraints for the coach mic; an empty `deviceId` uses the system default. */
+export function micConstraints(deviceId: string): MediaTrackConstraints {
+    return {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        channelCount: 1,
+        echoCancellation: true,
+        autoGainControl: true,
+        noiseSuppression: true,
+    };
+}
+
+export function supportsOutputSelection(): boolean {
+    return typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype;
+}
+
+/** Routes `context` to the output device; "" is the system default. */
+export async function setOutputDevice(context: AudioContext, deviceId: string) {
+    const sinkable = context as SinkableAudioContext;
+    if (!sinkable.setSinkId) return;
+    await sinkable.setSinkId(deviceId);
+}
+
+/**
+ * The preferred device if it is currently connected, otherwise "" (the
+ * default). The preference is kept, so the device is used again when it
+ * reappears, e.g. a Bluetooth earpiece reconnecting.
+ */
+export function availableDeviceId(preferred: string, devices: MediaDeviceInfo[]): string {
+    return preferred && devices.some(device => device.deviceId === preferred) ? preferred : "";
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { FileCapture, type DecodedAudio, type FileMonitor } from "@shared/fileCapture";
+
+/** Decodes any format the browser can play (WAV, MP3, OGG...) at the file's own rate. */
+export async function decodeAudioFile(file: Blob): Promise<DecodedAudio> {
+    const context = new AudioContext();
+    try {
+        const buffer = await context.decodeAudioData(await file.arrayBuffer());
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+        return { sampleRate: buffer.sampleRate, channels };
+    } finally {
+        context.close();
+    }
+}
+
+/** Plays the file through an <audio> element, sped up to match the stream. */
+class AudioElementMonitor implements FileMonitor {
+    private audio: HTMLAudioElement | null = null;
+    private url: string | null = null;
+
+    constructor(private readonly file: Blob) {}
+
+    start(speed: number) {
+        this.stop();
+        this.url = URL.createObjectURL(this.file);
+        this.audio = new Audio(this.url);
+        this.audio.playbackRate = speed;
+        this.audio.play().catch(e => console.warn("Error playing the input file:", e));
+    }
+
+    stop() {
+        this.audio?.pause();
+        this.audio = null;
+        if (this.url) URL.revokeObjectURL(this.url);
+        this.url = null;
+    }
+}
+
+export interface FileInputOptions {
+    speed: number;
+    playLocally: boolean;
+}
+
+/** A recorded negotiation streamed in place of the microphone. */
+export function createFileCapture(file: Blob, { speed, playLocally }: FileInputOptions): FileCapture {
+    return new FileCapture(() => decodeAudioFile(file), {
+        speed,
+        monitor: playLocally ? new AudioElementMonitor(file) : undefined,
+        onEnded: () => console.log("Input file finished streaming"),
+    });
+}
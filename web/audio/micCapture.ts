@@ -0,0 +1,138 @@
+"use client";
+
+import { MIC_SAMPLE_RATE, type CaptureAdapter } from "@shared/liveSession";
+import { micConstraints } from "./devices";
+
+const WORKLET_URL = "/worklets/pcm-capture-processor.js";
+
+export const DEFAULT_CHUNK_MS = 100;
+
+export interface MicCaptureOptions {
+    // Length of each PCM16 chunk handed to onChunk
+    chunkMs?: number;
+    onChunk: (pcm: Int16Array) => void;
+}
+
+export interface MicCapture {
+    stop: () => void;
+}
+
+/**
+ * Captures `stream` through an AudioWorklet running at the device's native
+ * rate and delivers 16 kHz mono PCM16 chunks of `chunkMs` each.
+ */
+export async function startMicCapture(stream: MediaStream, { chunkMs = DEFAULT_CHUNK_MS, onChunk }: MicCaptureOptions): Promise<MicCapture> {
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        await context.audioWorklet.addModule(WORKLET_URL);
+        if (context.state === "suspended") await context.resume();
+    } catch (e) {
+        context.close();
+        throw e;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, "pcm-capture-processor", {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        processorOptions: { targetSampleRate: MIC_SAMPLE_RATE, chunkMs },
+    });
+    node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(event.data));
+    source.connect(node);
+
+    return {
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            context.close();
+        },
+    };
+}
+
+/**
+ * The session's microphone: a getUserMedia stream on the chosen device,
+ * captured through the worklet. The device can be switched mid-session
+ * without touching the socket.
+ */
+export class MicCaptureAdapter implements CaptureAdapter {
+    private stream: MediaStream | null = null;
+    // Device the current stream was opened with; "" is the default
+    private streamDeviceId = "";
+    private capture: MicCapture | null = null;
+    private onChunk: ((pcm: Uint8Array) => void) | null = null;
+
+    constructor(
+        private deviceId = "",
+        // Device labels are only exposed once permission is granted
+        private readonly onPermission?: () => void,
+        // Length of each chunk sent to the server
+        readonly chunkMs = DEFAULT_CHUNK_MS,
+    ) {}
+
+    async prepare(): Promise<boolean> {
+        try {
+            this.stream = await this.open(this.deviceId);
+            this.streamDeviceId = this.deviceId;
+            this.onPermission?.();
+            return true;
+        } catch (e) {
+            // Still connect: the coach can be reached through the text chat
+            console.warn("No microphone, continuing with text chat only:", e);
+            return false;
+        }
+    }
+
+    async start(onChunk: (pcm: Uint8Array) => void) {
+        this.onChunk = onChunk;
+        if (this.stream) await this.startCapture(this.stream);
+    }
+
+    async stop() {
+        this.onChunk = null;
+        this.capture?.stop();
+        this.capture = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+    }
+
+    /** Follows picker changes and devices being unplugged or reconnected mid-session. */
+    async switchDevice(deviceId: string) {
+        this.deviceId = deviceId;
+        const previous = this.stream;
+        if (!previous || this.streamDeviceId === deviceId) return;
+
+        const stream = await this.open(deviceId);
+        if (this.stream !== previous) {
+            // Stopped or switched again meanwhile
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        this.capture?.stop();
+        this.capture = null;
+        previous.getTracks().forEach(track => track.stop());
+        this.stream = stream;
+        this.streamDeviceId = deviceId;
+        // Between prepare() and start() only the stream is swapped; start() captures from it
+        if (this.onChunk) await this.startCapture(stream);
+    }
+
+    private open(deviceId: string) {
+        return navigator.mediaDevices.getUserMedia({ audio: micConstraints(deviceId) });
+    }
+
+    // The worklet resamples from the device rate, so no 16kHz context is needed
+    private async startCapture(stream: MediaStream) {
+        const capture = await startMicCapture(stream, {
+            chunkMs: this.chunkMs,
+            onChunk: pcm => this.onChunk?.(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+        });
+        if (this.stream !== stream) {
+            // Stopped while the worklet was loading
+            capture.stop();
+            return;
+        }
+        this.capture = capture;
+    }
+}
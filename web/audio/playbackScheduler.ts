@@ -0,0 +1,74 @@
+"use client";
+
+import { bytesToPcm16, pcm16ToFloat32 } from "@shared/pcm";
+
+// Gemini's output rate
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+/**
+ * Gapless playback of coach audio on a Web Audio context: each PCM16 chunk
+ * starts where the previous one ends, and after an underrun the next chunk
+ * starts right away.
+ */
+export class PlaybackScheduler {
+    private nextStartTime: number;
+    private sources: AudioBufferSourceNode[] = [];
+
+    constructor(
+        private readonly context: BaseAudioContext,
+        // Sources connect here, e.g. an analyser in front of the destination
+        private readonly output: AudioNode = context.destination,
+        private readonly sampleRate = PLAYBACK_SAMPLE_RATE,
+    ) {
+        this.nextStartTime = context.currentTime;
+    }
+
+    /** Schedules little-endian PCM16 bytes; returns the chunk's start time in context seconds. */
+    schedule(bytes: Uint8Array): number {
+        const samples = pcm16ToFloat32(bytesToPcm16(bytes));
+        const buffer = this.context.createBuffer(1, samples.length, this.sampleRate);
+        buffer.getChannelData(0).set(samples);
+
+        const source = this.context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(this.output);
+        this.sources.push(source);
+        source.onended = () => {
+            source.disconnect();
+            this.sources = this.sources.filter(s => s !== source);
+        };
+
+        // If nextStartTime is in the past (buffer underrun), start now
+        const startTime = Math.max(this.nextStartTime, this.context.currentTime);
+        source.start(startTime);
+        this.nextStartTime = startTime + buffer.duration;
+        return startTime;
+    }
+
+    /** Seconds of scheduled audio that haven't played yet. */
+    get queuedSeconds(): number {
+        return Math.max(0, this.nextStartTime - this.context.currentTime);
+    }
+
+    get activeSources(): number {
+        return this.sources.length;
+    }
+
+    /** Stops everything scheduled, e.g. when Gemini is interrupted. */
+    stop() {
+        for (const source of this.sources) {
+            try {
+                source.stop();
+            } catch {
+                // Already stopped
+            }
+        }
+        this.sources = [];
+        this.reset();
+    }
+
+    /** Starts the next chunk immediately, e.g. at the start of a session. */
+    reset() {
+        this.nextStartTime = this.context.currentTime;
+    }
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import type { PlaybackAdapter } from "@shared/liveSession";
+import { PLAYBACK_SAMPLE_RATE, PlaybackScheduler } from "./playbackScheduler";
+import { setOutputDevice } from "./devices";
+
+/**
+ * Plays the coach through a Web Audio context on the chosen output device.
+ * Sources go through an analyser so the playback level follows what is
+ * audible. The context is kept between sessions for a faster start.
+ */
+export class WebAudioPlayback implements PlaybackAdapter {
+    private context: AudioContext | null = null;
+    private analyser: AnalyserNode | null = null;
+    private scheduler: PlaybackScheduler | null = null;
+
+    constructor(private outputDeviceId = "") {}
+
+    async prepare() {
+        if (!this.context) {
+            this.context = new (window.AudioContext || (window as any).webkitAudioContext)({
+                sampleRate: PLAYBACK_SAMPLE_RATE,
+            });
+            this.analyser = this.context.createAnalyser();
+            this.analyser.fftSize = 1024;
+            this.analyser.connect(this.context.destination);
+            this.scheduler = new PlaybackScheduler(this.context, this.analyser);
+            this.applyOutputDevice();
+        }
+        if (this.context.state === "suspended") await this.context.resume();
+        this.scheduler?.reset();
+    }
+
+    enqueue(pcm: Uint8Array) {
+        this.scheduler?.schedule(pcm);
+    }
+
+    // Chunks are scheduled as they arrive, so nothing is held back
+    flush() {}
+
+    stop() {
+        this.scheduler?.stop();
+    }
+
+    async close() {
+        const context = this.context;
+        this.context = null;
+        this.analyser = null;
+        this.scheduler = null;
+        await context?.close();
+    }
+
+    get queuedMs() {
+        return (this.scheduler?.queuedSeconds ?? 0) * 1000;
+    }
+
+    readOutput(samples: Float32Array<ArrayBuffer>) {
+        if (this.analyser) this.analyser.getFloatTimeDomainData(samples);
+        else samples.fill(0);
+    }
+
+    setOutputDevice(deviceId: string) {
+        this.outputDeviceId = deviceId;
+        this.applyOutputDevice();
+    }
+
+    private async applyOutputDevice() {
+        if (!this.context) return;
+        try {
+            await setOutputDevice(this.context, this.outputDeviceId);
+        } catch (e) {
+            console.error("Error switching output device:", e);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  Activity,
+  ClipboardList,
+  HeartHandshake,
+  MessageCircleQuestion,
+  Pause,
+  Repeat,
+  Sparkles,
+  Tag,
+  type LucideIcon,
+} from "lucide-react";
+import { formatCueArgs, formatCueTime, techniqueInfo, type CoachCue } from "@shared/cues";
+import type { CoachTool } from "@shared/protocol";
+
+const ICONS: Record<CoachTool, LucideIcon> = {
+  suggest_mirroring: Repeat,
+  suggest_labeling: Tag,
+  suggest_tactical_empathy: HeartHandshake,
+  suggest_calibrated_questions: MessageCircleQuestion,
+  suggest_effective_pauses: Pause,
+  provide_real_time_feedback: Activity,
+  summarize_negotiation: ClipboardList,
+};
+
+interface CueFeedProps {
+  cues: CoachCue[];
+}
+
+export default function CueFeed({ cues }: CueFeedProps) {
+  return (
+    <div className="flex flex-col gap-3 w-full max-w-sm max-h-96 overflow-y-auto pr-1">
+      {cues.length === 0 && (
+        <p className="text-sm opacity-50 font-mono text-center">
+          Coaching cues will appear here
+        </p>
+      )}
+      <AnimatePresence initial={false}>
+        {cues.map((cue) => {
+          const info = techniqueInfo(cue.tool);
+          const Icon = ICONS[cue.tool as CoachTool] ?? Sparkles;
+          const args = formatCueArgs(cue.args);
+
+          return (
+            <motion.div
+              key={cue.id}
+              layout
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0 }}
+              className="rounded-xl border bg-zinc-900/80 p-3"
+              style={{ borderColor: info.color }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-bold" style={{ color: info.color }}>
+                  <Icon size={18} />
+                  <span>{info.label}</span>
+                </div>
+                <span className="text-xs opacity-50 font-mono">{formatCueTime(cue.receivedAt)}</span>
+              </div>
+              {args.map((line) => (
+                <p key={line} className="mt-1 text-sm opacity-80">
+                  {line}
+                </p>
+              ))}
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
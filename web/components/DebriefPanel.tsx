@@ -0,0 +1,117 @@
+"use client";
+
+import { Trash2, X } from "lucide-react";
+import { formatDuration, type Debrief } from "@shared/debrief";
+import { techniqueInfo } from "@shared/cues";
+
+interface DebriefPanelProps {
+  debriefs: Debrief[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function Section({ title, items, empty }: { title: string; items: string[]; empty: string }) {
+  return (
+    <section>
+      <h3 className="mb-2 text-sm font-bold uppercase tracking-wide opacity-60">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-sm opacity-50">{empty}</p>
+      ) : (
+        <ul className="list-disc space-y-1 pl-5 text-sm">
+          {items.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default function DebriefPanel({ debriefs, activeId, onSelect, onDelete, onClose }: DebriefPanelProps) {
+  const debrief = debriefs.find((d) => d.id === activeId) ?? debriefs[0];
+  const techniques = debrief ? Object.entries(debrief.techniqueCounts) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full max-h-[40rem] w-full max-w-4xl overflow-hidden rounded-2xl border border-neutral-800 bg-zinc-950">
+        {/* Past debriefs */}
+        <aside className="w-56 shrink-0 overflow-y-auto border-r border-neutral-800">
+          {debriefs.map((d) => (
+            <button
+              key={d.id}
+              onClick={() => onSelect(d.id)}
+              className={`block w-full px-4 py-3 text-left text-sm hover:bg-zinc-900 ${d.id === debrief?.id ? "bg-zinc-900" : ""}`}
+            >
+              <span className="block font-bold">{d.scenarioTitle}</span>
+              <span className="block text-xs opacity-50">{new Date(d.createdAt).toLocaleString()}</span>
+            </button>
+          ))}
+        </aside>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold">Debrief</h2>
+              {debrief && (
+                <p className="text-sm opacity-60">
+                  {debrief.scenarioTitle} · {new Date(debrief.createdAt).toLocaleString()} · {formatDuration(debrief.durationMs)}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-3">
+              {debrief && (
+                <button onClick={() => onDelete(debrief.id)} className="opacity-50 hover:opacity-100" aria-label="Delete debrief">
+                  <Trash2 size={20} />
+                </button>
+              )}
+              <button onClick={onClose} className="opacity-70 hover:opacity-100" aria-label="Close">
+                <X size={22} />
+              </button>
+            </div>
+          </div>
+
+          {!debrief ? (
+            <p className="opacity-50">No debriefs yet. End a session to get one.</p>
+          ) : (
+            <div className="space-y-6">
+              {!debrief.summaryAvailable && (
+                <p className="rounded-lg border border-yellow-700 bg-yellow-900/30 p-3 text-sm">
+                  Gemini did not return a summary before the session closed. Technique counts are still available.
+                </p>
+              )}
+
+              <section>
+                <h3 className="mb-2 text-sm font-bold uppercase tracking-wide opacity-60">Final terms</h3>
+                <p className="text-lg">{debrief.finalTerms ?? "No agreed terms recorded"}</p>
+              </section>
+
+              <section>
+                <h3 className="mb-2 text-sm font-bold uppercase tracking-wide opacity-60">Techniques used</h3>
+                {techniques.length === 0 ? (
+                  <p className="text-sm opacity-50">The coach made no suggestions</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {techniques.map(([tool, count]) => {
+                      const info = techniqueInfo(tool);
+                      return (
+                        <span key={tool} className="rounded-full border px-3 py-1 text-sm" style={{ borderColor: info.color, color: info.color }}>
+                          {info.label} × {count}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+
+              <Section title="Key points" items={debrief.keyPoints} empty="None recorded" />
+              <Section title="Concessions" items={debrief.concessions} empty="None recorded" />
+              <Section title="Missed opportunities" items={debrief.missedOpportunities} empty="None recorded" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Mic, Volume2 } from "lucide-react";
+
+interface DevicePickerProps {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  micDeviceId: string;
+  outputDeviceId: string;
+  canSelectOutput: boolean;
+  onMicChange: (deviceId: string) => void;
+  onOutputChange: (deviceId: string) => void;
+}
+
+function DeviceSelect({
+  label,
+  icon,
+  devices,
+  value,
+  disabled,
+  title,
+  onChange,
+}: {
+  label: string;
+  icon: ReactNode;
+  devices: MediaDeviceInfo[];
+  value: string;
+  disabled?: boolean;
+  title?: string;
+  onChange: (deviceId: string) => void;
+}) {
+  // A saved device that is currently disconnected stays selected, marked unavailable
+  const missing = value !== "" && !devices.some(device => device.deviceId === value);
+
+  return (
+    <label className="flex items-center gap-2 opacity-60" title={title}>
+      {icon}
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="max-w-56 truncate rounded border border-neutral-700 bg-zinc-900 px-2 py-1 disabled:opacity-40"
+        aria-label={label}
+      >
+        <option value="">Default {label.toLowerCase()}</option>
+        {devices
+          .filter(device => device.deviceId !== "default" && device.deviceId !== "")
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </option>
+          ))}
+        {missing && <option value={value}>Unavailable - using default</option>}
+      </select>
+    </label>
+  );
+}
+
+/** Input and output device selection; changes apply immediately, even mid-session. */
+export default function DevicePicker({
+  inputs,
+  outputs,
+  micDeviceId,
+  outputDeviceId,
+  canSelectOutput,
+  onMicChange,
+  onOutputChange,
+}: DevicePickerProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+      <DeviceSelect label="Microphone" icon={<Mic size={14} />} devices={inputs} value={micDeviceId} onChange={onMicChange} />
+      <DeviceSelect
+        label="Speaker"
+        icon={<Volume2 size={14} />}
+        devices={outputs}
+        value={outputDeviceId}
+        disabled={!canSelectOutput}
+        title={canSelectOutput ? undefined : "This browser can't choose the output device"}
+        onChange={onOutputChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Download, X } from "lucide-react";
+import { formatMs, formatRate, type DiagnosticsSnapshot, type LatencyStats } from "@shared/diagnostics";
+
+interface DiagnosticsOverlayProps {
+  snapshot: DiagnosticsSnapshot | null;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+function LatencyRow({ label, stats }: { label: string; stats: LatencyStats }) {
+  return (
+    <tr>
+      <td className="pr-3 opacity-60">{label}</td>
+      <td className="pr-3">{formatMs(stats.lastMs)}</td>
+      <td className="pr-3">{formatMs(stats.avgMs)}</td>
+      <td className="pr-3">{formatMs(stats.p95Ms)}</td>
+      <td className="opacity-60">{stats.count}</td>
+    </tr>
+  );
+}
+
+export default function DiagnosticsOverlay({ snapshot, onExport, onClose }: DiagnosticsOverlayProps) {
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 rounded-xl border border-neutral-800 bg-zinc-950/90 p-4 font-mono text-xs backdrop-blur">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="text-sm font-bold">Diagnostics</span>
+        <div className="flex gap-2">
+          <button onClick={onExport} className="flex items-center gap-1 opacity-70 hover:opacity-100">
+            <Download size={14} /> JSON
+          </button>
+          <button onClick={onClose} className="opacity-70 hover:opacity-100" aria-label="Close diagnostics">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {snapshot ? (
+        <>
+          <table className="mb-3 w-full text-left">
+            <thead>
+              <tr className="opacity-40">
+                <th className="font-normal" />
+                <th className="font-normal">last</th>
+                <th className="font-normal">avg</th>
+                <th className="font-normal">p95</th>
+                <th className="font-normal">n</th>
+              </tr>
+            </thead>
+            <tbody>
+              <LatencyRow label="Mic → cue" stats={snapshot.micToCue} />
+              <LatencyRow label="1st audio" stats={snapshot.firstAudio} />
+            </tbody>
+          </table>
+          <p><span className="opacity-60">Playback queue</span> {snapshot.queueDepthMs} ms</p>
+          <p><span className="opacity-60">Sent</span> {formatRate(snapshot.sentBytesPerSec)}</p>
+          <p><span className="opacity-60">Received</span> {formatRate(snapshot.receivedBytesPerSec)}</p>
+        </>
+      ) : (
+        <p className="opacity-50">Collecting...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { FileAudio, X } from "lucide-react";
+import { FILE_SPEEDS } from "@shared/fileCapture";
+
+interface InputFilePickerProps {
+  file: File | null;
+  speed: number;
+  playLocally: boolean;
+  disabled: boolean;
+  onFileChange: (file: File | null) => void;
+  onSpeedChange: (speed: number) => void;
+  onPlayLocallyChange: (playLocally: boolean) => void;
+}
+
+/** Picks a recorded negotiation to send instead of the microphone, for reproducible runs. */
+export default function InputFilePicker({
+  file,
+  speed,
+  playLocally,
+  disabled,
+  onFileChange,
+  onSpeedChange,
+  onPlayLocallyChange,
+}: InputFilePickerProps) {
+  if (!file) {
+    return (
+      <label className={`flex items-center gap-2 text-sm opacity-60 ${disabled ? "" : "cursor-pointer hover:opacity-100"}`}>
+        <FileAudio size={14} />
+        <span className="underline">Use an audio file as input</span>
+        <input
+          type="file"
+          accept=".wav,.mp3,.ogg,audio/wav,audio/mpeg,audio/ogg"
+          disabled={disabled}
+          onChange={(e) => onFileChange(e.target.files?.[0] ?? null)}
+          className="hidden"
+        />
+      </label>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+      <span className="flex items-center gap-2 opacity-80">
+        <FileAudio size={14} />
+        <span className="max-w-56 truncate font-mono">{file.name}</span>
+        <button onClick={() => onFileChange(null)} disabled={disabled} className="opacity-60 hover:opacity-100 disabled:opacity-30" aria-label="Use the microphone">
+          <X size={14} />
+        </button>
+      </span>
+      <select
+        value={speed}
+        disabled={disabled}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="rounded border border-neutral-700 bg-zinc-900 px-2 py-1 opacity-60 disabled:opacity-40"
+        aria-label="Streaming speed"
+      >
+        {FILE_SPEEDS.map(value => <option key={value} value={value}>{value === 1 ? "Real time" : `${value}x`}</option>)}
+      </select>
+      <label className="flex items-center gap-2 opacity-60">
+        <input type="checkbox" checked={playLocally} disabled={disabled} onChange={(e) => onPlayLocallyChange(e.target.checked)} />
+        Play locally
+      </label>
+    </div>
+  );
+}
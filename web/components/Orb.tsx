@@ -9,12 +9,17 @@ interface OrbProps {
 
 export default function Orb({ isActive, volume = 0 }: OrbProps) {
   return (
-    <div className="relative flex items-center justify-center w-64 h-64">
+    <motion.div
+      className="relative flex items-center justify-center w-64 h-64"
+      // Follows the live level directly; the pulse below keeps its own rhythm
+      animate={{ scale: 1 + volume * 0.35 }}
+      transition={{ duration: 0.1, ease: "easeOut" }}
+    >
       {/* Core Orb */}
       <motion.div
         className="absolute w-32 h-32 rounded-full bg-gradient-to-br from-blue-400 to-purple-600 blur-md z-10"
         animate={{
-          scale: isActive ? [1, 1.2 + volume, 1] : 1,
+          scale: isActive ? [1, 1.2, 1] : 1,
           rotate: isActive ? [0, 360] : 0,
         }}
         transition={{
@@ -57,6 +62,6 @@ export default function Orb({ isActive, volume = 0 }: OrbProps) {
           ease: "easeInOut",
         }}
       />
-    </div>
+    </motion.div>
   );
 }
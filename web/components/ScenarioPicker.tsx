@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { LIVE_COACH_TITLE, validateScenario, type Scenario } from "@shared/scenarios";
+
+interface ScenarioPickerProps {
+  scenarios: Scenario[];
+  selected: Scenario | null;
+  disabled?: boolean;
+  onSelect: (id: string | null) => void;
+  onCreate: (fields: Omit<Scenario, "id" | "builtIn">) => void;
+  onDelete: (id: string) => void;
+}
+
+const EMPTY_FORM = { title: "", role: "", objective: "", prompt: "" };
+
+export default function ScenarioPicker({ scenarios, selected, disabled, onSelect, onCreate, onDelete }: ScenarioPickerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    const validationError = validateScenario(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onCreate(form);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setIsCreating(false);
+  };
+
+  const inputClass = "w-full rounded-lg border border-neutral-700 bg-zinc-900 px-3 py-2 text-sm focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="w-full max-w-2xl">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          disabled={disabled}
+          onClick={() => onSelect(null)}
+          className={`rounded-full border px-4 py-1 text-sm transition-colors disabled:opacity-40 ${selected === null ? "border-blue-500 bg-blue-600/30" : "border-neutral-700 hover:border-neutral-500"}`}
+        >
+          {LIVE_COACH_TITLE}
+        </button>
+        {scenarios.map((scenario) => (
+          <span
+            key={scenario.id}
+            className={`flex items-center gap-1 rounded-full border px-4 py-1 text-sm transition-colors ${selected?.id === scenario.id ? "border-blue-500 bg-blue-600/30" : "border-neutral-700 hover:border-neutral-500"} ${disabled ? "opacity-40" : ""}`}
+          >
+            <button disabled={disabled} onClick={() => onSelect(scenario.id)} title={scenario.objective}>
+              {scenario.title}
+            </button>
+            {!scenario.builtIn && (
+              <button
+                disabled={disabled}
+                onClick={() => onDelete(scenario.id)}
+                className="opacity-50 hover:opacity-100"
+                aria-label={`Delete ${scenario.title}`}
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+        <button
+          disabled={disabled}
+          onClick={() => setIsCreating(!isCreating)}
+          className="flex items-center gap-1 rounded-full border border-dashed border-neutral-700 px-4 py-1 text-sm hover:border-neutral-500 disabled:opacity-40"
+        >
+          {isCreating ? <X size={14} /> : <Plus size={14} />} {isCreating ? "Cancel" : "New scenario"}
+        </button>
+      </div>
+
+      {selected && !isCreating && (
+        <p className="mt-3 text-center text-sm opacity-60">
+          Practice against: <span className="font-bold">{selected.role}</span> — {selected.objective}
+        </p>
+      )}
+
+      {isCreating && (
+        <div className="mt-4 flex flex-col gap-2 rounded-xl border border-neutral-800 bg-zinc-900/60 p-4">
+          <input className={inputClass} placeholder="Title (e.g. Rent renewal)" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+          <input className={inputClass} placeholder="Counterpart role (e.g. Landlord)" value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })} />
+          <input className={inputClass} placeholder="Counterpart objective" value={form.objective} onChange={(e) => setForm({ ...form, objective: e.target.value })} />
+          <textarea className={`${inputClass} h-24 resize-none`} placeholder="Prompt describing how the counterpart should behave" value={form.prompt} onChange={(e) => setForm({ ...form, prompt: e.target.value })} />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button onClick={submit} className="self-end rounded-full bg-blue-600 px-4 py-1 text-sm font-bold hover:bg-blue-700">
+            Save scenario
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ClipboardList, Download, Pause, Play, Trash2, X } from "lucide-react";
+import { formatDuration } from "@shared/debrief";
+import { formatCueArgs, formatCueTime, techniqueInfo } from "@shared/cues";
+import { roleLabel } from "@shared/transcript";
+import { scenarioTitle } from "@shared/scenarios";
+import {
+  RECORDING_CHANNELS,
+  RECORDING_SAMPLE_RATE,
+  recordingBaseName,
+  recordingToJson,
+  recordingToWav,
+  recordingToWebVtt,
+  renderTrack,
+} from "@shared/recording";
+import {
+  buildTimeline,
+  eventsUntil,
+  sessionDuration,
+  type AudioChunkRecord,
+  type SessionRecord,
+} from "@shared/sessions";
+import { loadSessionAudio } from "../hooks/useSessionHistory";
+import { useReplay } from "../hooks/useReplay";
+
+interface SessionHistoryPanelProps {
+  sessions: SessionRecord[];
+  onDelete: (id: string) => void;
+  onOpenDebrief: (debriefId: string) => void;
+  onClose: () => void;
+}
+
+function download(data: BlobPart, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Stereo WAV (you left, coach right) with WebVTT and JSON sidecars
+function exportRecording(session: SessionRecord, audio: AudioChunkRecord[]) {
+  const name = recordingBaseName(session);
+  download(recordingToWav(session, audio), "audio/wav", `${name}.wav`);
+  download(recordingToWebVtt(session), "text/vtt", `${name}.vtt`);
+  download(recordingToJson(session), "application/json", `${name}.json`);
+}
+
+function SessionReplay({ session, onOpenDebrief }: { session: SessionRecord; onOpenDebrief: (id: string) => void }) {
+  const timeline = useMemo(() => buildTimeline(session), [session]);
+  const durationMs = sessionDuration(session);
+  const audioRef = useRef<AudioChunkRecord[] | null>(null);
+  // Each track laid out as in the WAV export, so replay and export agree
+  const tracksRef = useRef<Float32Array[] | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const [hasAudio, setHasAudio] = useState(false);
+
+  useEffect(() => {
+    audioRef.current = null;
+    tracksRef.current = null;
+    setHasAudio(false);
+    if (!session.hasAudio) return;
+    loadSessionAudio(session.id)
+      .then(audio => {
+        audioRef.current = audio ?? null;
+        tracksRef.current = audio?.length ? RECORDING_CHANNELS.map(track => renderTrack(session, audio, track)) : null;
+        setHasAudio(!!audio?.length);
+      })
+      .catch(e => console.warn("Error loading session audio:", e));
+  }, [session]);
+
+  const stopAudio = useCallback(() => {
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  // Plays each rendered track from `positionMs` on a fresh AudioContext
+  const startAudio = useCallback((positionMs: number) => {
+    stopAudio();
+    const tracks = tracksRef.current;
+    if (!tracks) return;
+
+    const context = new AudioContext();
+    contextRef.current = context;
+    const from = Math.round((positionMs / 1000) * RECORDING_SAMPLE_RATE);
+    for (const samples of tracks) {
+      if (from >= samples.length) continue;
+      const remaining = samples.subarray(from);
+      const buffer = context.createBuffer(1, remaining.length, RECORDING_SAMPLE_RATE);
+      buffer.getChannelData(0).set(remaining);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.start();
+    }
+  }, [stopAudio]);
+
+  const { positionMs, isPlaying, play, pause, seek } = useReplay(durationMs, startAudio, stopAudio);
+
+  useEffect(() => stopAudio, [stopAudio]);
+
+  const visible = eventsUntil(timeline, positionMs);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="mb-4 flex items-start justify-between gap-4 pr-8">
+        <div>
+          <h2 className="text-2xl font-bold">{scenarioTitle(session.scenario)}</h2>
+          <p className="text-sm opacity-60">
+            {new Date(session.startedAt).toLocaleString()} · {formatDuration(durationMs)} · {session.turns.length} turns · {session.cues.length} cues
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {hasAudio && (
+            <button onClick={() => exportRecording(session, audioRef.current!)} className="flex items-center gap-1 text-sm opacity-70 hover:opacity-100">
+              <Download size={16} /> Export WAV
+            </button>
+          )}
+          {session.debriefId && (
+            <button onClick={() => onOpenDebrief(session.debriefId!)} className="flex items-center gap-1 text-sm opacity-70 hover:opacity-100">
+              <ClipboardList size={16} /> Debrief
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-4 flex items-center gap-3">
+        <button
+          onClick={() => (isPlaying ? pause() : play())}
+          className="rounded-full bg-blue-600 p-2 hover:bg-blue-700"
+          aria-label={isPlaying ? "Pause replay" : "Play replay"}
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={durationMs}
+          value={positionMs}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-24 text-right font-mono text-xs opacity-60">
+          {formatDuration(positionMs)} / {formatDuration(durationMs)}
+        </span>
+      </div>
+      {session.hasAudio && !hasAudio && <p className="mb-2 text-xs opacity-50">Loading audio...</p>}
+
+      <div className="flex-1 space-y-2 overflow-y-auto">
+        {visible.length === 0 && <p className="text-sm opacity-50">Press play to replay the session timeline</p>}
+        {visible.map((event) => {
+          if (event.kind === "turn") {
+            return (
+              <p key={`turn-${event.turn.id}`} className="text-sm">
+                <span className="font-mono text-xs opacity-50">{formatDuration(event.at)} </span>
+                <span className="font-bold text-blue-400">{roleLabel(event.turn.role)}:</span> {event.turn.text}
+              </p>
+            );
+          }
+          const info = techniqueInfo(event.cue.tool);
+          return (
+            <div key={`cue-${event.cue.id}`} className="rounded-lg border px-3 py-2 text-sm" style={{ borderColor: info.color }}>
+              <span className="font-mono text-xs opacity-50">{formatDuration(event.at)} </span>
+              <span className="font-bold" style={{ color: info.color }}>{info.label}</span>
+              <span className="ml-2 text-xs opacity-50">{formatCueTime(event.cue.receivedAt)}</span>
+              {formatCueArgs(event.cue.args).map(line => <p key={line} className="opacity-80">{line}</p>)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function SessionHistoryPanel({ sessions, onDelete, onOpenDebrief, onClose }: SessionHistoryPanelProps) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const session = sessions.find(s => s.id === activeId) ?? sessions[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full max-h-[40rem] w-full max-w-5xl overflow-hidden rounded-2xl border border-neutral-800 bg-zinc-950">
+        <aside className="w-64 shrink-0 overflow-y-auto border-r border-neutral-800">
+          {sessions.map((s) => (
+            <div key={s.id} className={`group flex items-center hover:bg-zinc-900 ${s.id === session?.id ? "bg-zinc-900" : ""}`}>
+              <button onClick={() => setActiveId(s.id)} className="flex-1 px-4 py-3 text-left text-sm">
+                <span className="block font-bold">{scenarioTitle(s.scenario)}</span>
+                <span className="block text-xs opacity-50">
+                  {new Date(s.startedAt).toLocaleString()} · {formatDuration(sessionDuration(s))}
+                </span>
+              </button>
+              <button onClick={() => onDelete(s.id)} className="px-3 opacity-0 group-hover:opacity-60 hover:!opacity-100" aria-label="Delete session">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </aside>
+
+        <div className="relative flex-1 overflow-hidden p-6">
+          <button onClick={onClose} className="absolute right-4 top-4 opacity-70 hover:opacity-100" aria-label="Close">
+            <X size={22} />
+          </button>
+          {session ? (
+            <SessionReplay key={session.id} session={session} onOpenDebrief={onOpenDebrief} />
+          ) : (
+            <p className="opacity-50">No sessions yet. Connect to start one.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
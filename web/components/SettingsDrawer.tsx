@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, type FormEvent, type ReactNode } from "react";
+import { CircleCheck, CircleX, LoaderCircle, X } from "lucide-react";
+import { DEFAULT_BACKEND_URL, checkHealth, normalizeBackendUrl, type HealthStatus } from "@shared/backend";
+
+interface SettingsDrawerProps {
+  backendUrl: string;
+  onBackendUrlChange: (url: string) => void;
+  onClose: () => void;
+}
+
+type TestResult = { state: "testing" } | { state: "ok"; health: HealthStatus } | { state: "error"; message: string };
+
+function Status({ ok, children }: { ok: boolean; children: ReactNode }) {
+  return (
+    <p className={`flex items-center gap-2 ${ok ? "text-emerald-400" : "text-red-400"}`}>
+      {ok ? <CircleCheck size={16} /> : <CircleX size={16} />} {children}
+    </p>
+  );
+}
+
+export default function SettingsDrawer({ backendUrl, onBackendUrlChange, onClose }: SettingsDrawerProps) {
+  const [draft, setDraft] = useState(backendUrl);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<TestResult | null>(null);
+
+  const normalizedDraft = () => {
+    const url = normalizeBackendUrl(draft);
+    setError(url ? null : "Enter an address like localhost:8000 or ws://192.168.1.20:8000/ws");
+    return url;
+  };
+
+  const save = (e: FormEvent) => {
+    e.preventDefault();
+    const url = normalizedDraft();
+    if (!url) return;
+    onBackendUrlChange(url);
+    setDraft(url);
+  };
+
+  const resetToDefault = () => {
+    onBackendUrlChange(DEFAULT_BACKEND_URL);
+    setDraft(DEFAULT_BACKEND_URL);
+    setError(null);
+    setResult(null);
+  };
+
+  const testConnection = async () => {
+    const url = normalizedDraft();
+    if (!url) return;
+    setResult({ state: "testing" });
+    try {
+      setResult({ state: "ok", health: await checkHealth(url) });
+    } catch (e) {
+      setResult({ state: "error", message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const isDirty = normalizeBackendUrl(draft) !== backendUrl;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <aside
+        className="flex h-full w-full max-w-md flex-col gap-4 overflow-y-auto border-l border-neutral-800 bg-zinc-950 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Settings</h2>
+          <button onClick={onClose} className="opacity-70 hover:opacity-100" aria-label="Close settings">
+            <X size={22} />
+          </button>
+        </div>
+
+        <form onSubmit={save} className="flex flex-col gap-3">
+          <label className="text-sm font-bold" htmlFor="backend-url">Server</label>
+          <p className="text-sm opacity-60">WebSocket address of the coach backend. Changes apply to the next connection.</p>
+          <input
+            id="backend-url"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setResult(null);
+            }}
+            placeholder={DEFAULT_BACKEND_URL}
+            spellCheck={false}
+            className="rounded-lg border border-neutral-700 bg-zinc-900 px-3 py-2 font-mono text-sm outline-none focus:border-neutral-500"
+          />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex gap-2 text-sm">
+            <button
+              type="submit"
+              disabled={!isDirty}
+              className="rounded-full bg-blue-600 px-4 py-2 font-bold hover:bg-blue-700 disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={testConnection}
+              disabled={result?.state === "testing"}
+              className="rounded-full border border-neutral-700 px-4 py-2 hover:bg-zinc-800"
+            >
+              Test connection
+            </button>
+            <button type="button" onClick={resetToDefault} className="rounded-full px-4 py-2 opacity-60 hover:opacity-100">
+              Reset
+            </button>
+          </div>
+        </form>
+
+        <div className="text-sm">
+          {result?.state === "testing" && (
+            <p className="flex items-center gap-2 opacity-60"><LoaderCircle size={16} className="animate-spin" /> Checking /health...</p>
+          )}
+          {result?.state === "ok" && (
+            <div className="flex flex-col gap-1">
+              <Status ok>Server is {result.health.status}</Status>
+              <Status ok={result.health.api_key_configured}>
+                {result.health.api_key_configured
+                  ? "Gemini API key is configured"
+                  : "Gemini API key is missing - set GOOGLE_API_KEY on the server"}
+              </Status>
+            </div>
+          )}
+          {result?.state === "error" && <Status ok={false}>{result.message}</Status>}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { AnimatePresence, motion } from "framer-motion";
+import { techniqueInfo } from "@shared/cues";
+import { formatSpokenCue, type SpokenCue } from "@shared/cueParser";
+
+// Below this the coach's words only loosely matched the cue format
+const LOW_CONFIDENCE = 0.5;
+
+interface SpokenCueCardProps {
+  cue: SpokenCue | null;
+}
+
+/** The coach's latest spoken cue in large type, e.g. "MIRROR: fair price?", readable at a glance. */
+export default function SpokenCueCard({ cue }: SpokenCueCardProps) {
+  return (
+    <AnimatePresence mode="wait">
+      {cue && (
+        <motion.div
+          key={cue.turnId}
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: cue.confidence < LOW_CONFIDENCE ? 0.6 : 1, scale: 1 }}
+          exit={{ opacity: 0 }}
+          className="w-full max-w-2xl rounded-2xl border-2 bg-zinc-900/80 px-6 py-4 text-center"
+          style={{ borderColor: techniqueInfo(cue.technique).color }}
+          title={`Confidence ${Math.round(cue.confidence * 100)}%${cue.toolCueId ? ", confirmed by a tool call" : ""}`}
+        >
+          <p className="text-3xl font-bold tracking-wide" style={{ color: techniqueInfo(cue.technique).color }}>
+            {formatSpokenCue(cue)}
+          </p>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
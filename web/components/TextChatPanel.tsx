@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { SendHorizontal } from "lucide-react";
+
+interface TextChatPanelProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+/** Typed questions for the coach, for when speaking to it isn't possible. */
+export default function TextChatPanel({ disabled, onSend }: TextChatPanelProps) {
+  const [text, setText] = useState("");
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || disabled) return;
+    onSend(trimmed);
+    setText("");
+  };
+
+  return (
+    <form onSubmit={submit} className="flex w-full max-w-2xl items-center gap-2 px-4">
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        placeholder="Type to the coach, e.g. they just offered 35k, what now?"
+        className="flex-1 rounded-full border border-neutral-700 bg-zinc-900 px-4 py-2 text-sm outline-none focus:border-neutral-500 disabled:opacity-30"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="rounded-full border border-neutral-700 p-2 hover:bg-zinc-800 disabled:opacity-30"
+        aria-label="Send to coach"
+      >
+        <SendHorizontal size={18} />
+      </button>
+    </form>
+  );
+}
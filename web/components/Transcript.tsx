@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowDown, Copy, Download } from "lucide-react";
+import { roleLabel, transcriptToMarkdown, type TranscriptTurn } from "@shared/transcript";
+
+interface TranscriptProps {
+  turns: TranscriptTurn[];
+}
+
+// Distance from the bottom (px) within which the pane keeps following new text
+const STICKY_THRESHOLD = 40;
+
+export default function Transcript({ turns }: TranscriptProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [isFollowing, setIsFollowing] = useState(true);
+  const [copyResult, setCopyResult] = useState<"copied" | "failed" | null>(null);
+
+  useEffect(() => {
+    if (isFollowing && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns, isFollowing]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setIsFollowing(el.scrollHeight - el.scrollTop - el.clientHeight < STICKY_THRESHOLD);
+  };
+
+  const jumpToLatest = () => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
+    setIsFollowing(true);
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(transcriptToMarkdown(turns));
+      setCopyResult("copied");
+    } catch (e) {
+      console.warn("Error copying transcript:", e);
+      setCopyResult("failed");
+    }
+    setTimeout(() => setCopyResult(null), 1500);
+  };
+
+  const exportMarkdown = () => {
+    const blob = new Blob([transcriptToMarkdown(turns)], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `transcript-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="relative w-full max-w-2xl rounded-xl border border-neutral-800 bg-zinc-900/60">
+      <div className="flex items-center justify-between border-b border-neutral-800 px-4 py-2">
+        <span className="text-sm font-mono opacity-70">Transcript</span>
+        <div className="flex gap-2">
+          <button
+            onClick={copyMarkdown}
+            disabled={turns.length === 0}
+            className="flex items-center gap-1 text-xs opacity-70 hover:opacity-100 disabled:opacity-30"
+          >
+            <Copy size={14} /> {copyResult === "copied" ? "Copied" : copyResult === "failed" ? "Copy failed" : "Copy"}
+          </button>
+          <button
+            onClick={exportMarkdown}
+            disabled={turns.length === 0}
+            className="flex items-center gap-1 text-xs opacity-70 hover:opacity-100 disabled:opacity-30"
+          >
+            <Download size={14} /> Export .md
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={handleScroll} className="h-56 overflow-y-auto px-4 py-3 space-y-3">
+        {turns.length === 0 && (
+          <p className="text-sm opacity-50 font-mono">The coach&apos;s words will appear here</p>
+        )}
+        {turns.map((turn) => (
+          <p key={turn.id} className="text-sm leading-relaxed">
+            <span className={turn.role === "coach" ? "font-bold text-blue-400" : "font-bold text-emerald-400"}>
+              {roleLabel(turn.role)}:
+            </span>{" "}
+            <span className={turn.endedAt === null ? "opacity-100" : "opacity-80"}>{turn.text}</span>
+            {turn.interrupted && <span className="ml-1 text-xs opacity-50">(interrupted)</span>}
+          </p>
+        ))}
+      </div>
+
+      {!isFollowing && (
+        <button
+          onClick={jumpToLatest}
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-full bg-blue-600 px-3 py-1 text-xs shadow-lg hover:bg-blue-700"
+        >
+          <ArrowDown size={14} /> Jump to latest
+        </button>
+      )}
+    </div>
+  );
+}
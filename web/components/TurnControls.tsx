@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Mic, MessageSquareReply } from "lucide-react";
+
+interface TurnControlsProps {
+  pushToTalk: boolean;
+  isTalking: boolean;
+  disabled: boolean;
+  onPushToTalkChange: (enabled: boolean) => void;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  onAskCoach: () => void;
+}
+
+// Keys are left alone while typing in a form field or on a focused control, so Enter and Space still activate it
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+const isControl = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (["BUTTON", "A"].includes(target.tagName) || target.getAttribute("role") === "button");
+
+/** Push-to-talk and "ask the coach now". Space holds to talk, Enter asks the coach. */
+export default function TurnControls({
+  pushToTalk,
+  isTalking,
+  disabled,
+  onPushToTalkChange,
+  onTalkStart,
+  onTalkEnd,
+  onAskCoach,
+}: TurnControlsProps) {
+  // Latest callbacks for the window listeners, which are only attached once
+  const handlersRef = useRef({ pushToTalk, isTalking, disabled, onTalkStart, onTalkEnd, onAskCoach });
+  handlersRef.current = { pushToTalk, isTalking, disabled, onTalkStart, onTalkEnd, onAskCoach };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const h = handlersRef.current;
+      if (h.disabled || isTyping(e.target) || isControl(e.target)) return;
+      if (e.code === "Space" && h.pushToTalk) {
+        e.preventDefault();
+        if (!e.repeat && !h.isTalking) h.onTalkStart();
+      } else if (e.key === "Enter" && !e.repeat) {
+        e.preventDefault();
+        h.onAskCoach();
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const h = handlersRef.current;
+      if (e.code === "Space" && h.isTalking) {
+        e.preventDefault();
+        h.onTalkEnd();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-4">
+        {pushToTalk && (
+          <button
+            disabled={disabled}
+            onPointerDown={onTalkStart}
+            onPointerUp={() => isTalking && onTalkEnd()}
+            onPointerLeave={() => isTalking && onTalkEnd()}
+            className={`flex select-none items-center gap-2 rounded-full border px-5 py-2 text-sm font-bold transition-colors disabled:opacity-30 ${isTalking
+              ? "border-emerald-400 bg-emerald-500/30"
+              : "border-neutral-700 hover:bg-zinc-800"
+              }`}
+          >
+            <Mic size={16} /> {isTalking ? "Talking..." : "Hold to talk"}
+          </button>
+        )}
+        <button
+          onClick={onAskCoach}
+          disabled={disabled}
+          className="flex items-center gap-2 rounded-full border border-neutral-700 px-5 py-2 text-sm hover:bg-zinc-800 disabled:opacity-30"
+        >
+          <MessageSquareReply size={16} /> Ask coach now
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm opacity-60">
+        <input type="checkbox" checked={pushToTalk} onChange={(e) => onPushToTalkChange(e.target.checked)} />
+        Push-to-talk
+        <span className="font-mono text-xs opacity-70">
+          {pushToTalk ? "(hold Space to talk, Enter to ask)" : "(Enter to ask)"}
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supportsOutputSelection } from "../audio/devices";
+
+/**
+ * Audio inputs and outputs, kept current through `devicechange`. Labels are
+ * only filled in once the page has microphone permission, so call `refresh`
+ * after `getUserMedia` succeeds.
+ */
+export function useAudioDevices() {
+    const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+    const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+    const [canSelectOutput, setCanSelectOutput] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            const devices = await navigator.mediaDevices.enumerateDevices();
+            setInputs(devices.filter(device => device.kind === "audioinput"));
+            setOutputs(devices.filter(device => device.kind === "audiooutput"));
+        } catch (e) {
+            console.warn("Error listing audio devices:", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        setCanSelectOutput(supportsOutputSelection());
+        if (!navigator.mediaDevices) return;
+        refresh();
+        navigator.mediaDevices.addEventListener("devicechange", refresh);
+        return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+    }, [refresh]);
+
+    return { inputs, outputs, canSelectOutput, refresh };
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { useCallback } from "react";
+import { MAX_DEBRIEFS, type Debrief } from "@shared/debrief";
+import { usePersistentState } from "./usePersistentState";
+
+/** Debriefs of past sessions, newest first. */
+export function useDebriefs() {
+    const [debriefs, setDebriefs, isLoaded] = usePersistentState<Debrief[]>("debriefs", []);
+
+    const saveDebrief = useCallback((debrief: Debrief) => {
+        setDebriefs(prev => [debrief, ...prev].slice(0, MAX_DEBRIEFS));
+    }, [setDebriefs]);
+
+    const removeDebrief = useCallback((id: string) => {
+        setDebriefs(prev => prev.filter(d => d.id !== id));
+    }, [setDebriefs]);
+
+    return { debriefs, saveDebrief, removeDebrief, isLoaded };
+}
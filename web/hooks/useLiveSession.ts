@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { LiveSession, type LiveSessionConfig } from "@shared/liveSession";
+import type { DiagnosticsSnapshot } from "@shared/diagnostics";
+import { MicCaptureAdapter } from "../audio/micCapture";
+import { WebAudioPlayback } from "../audio/webPlayback";
+import { createFileCapture } from "../audio/fileInput";
+
+const DIAGNOSTICS_UPDATE_MS = 500;
+
+export interface UseLiveSessionProps extends Partial<LiveSessionConfig> {
+    // Devices to use; "" is the system default
+    micDeviceId: string;
+    outputDeviceId: string;
+    // Called once microphone permission is granted, e.g. to refresh device labels
+    onMicPermission?: () => void;
+    // Polls diagnostics while true, e.g. while the overlay is open
+    diagnosticsEnabled?: boolean;
+    // A recorded negotiation sent instead of the microphone, from the next connect
+    inputFile?: File | null;
+    fileSpeed?: number;
+    playFileLocally?: boolean;
+}
+
+/**
+ * The shared LiveSession on Web Audio: the worklet mic capture and scheduled
+ * playback, following device changes mid-session.
+ */
+export function useLiveSession({
+    micDeviceId,
+    outputDeviceId,
+    onMicPermission,
+    diagnosticsEnabled = false,
+    inputFile = null,
+    fileSpeed = 1,
+    playFileLocally = false,
+    ...config
+}: UseLiveSessionProps) {
+    const onMicPermissionRef = useRef(onMicPermission);
+    onMicPermissionRef.current = onMicPermission;
+
+    const adaptersRef = useRef<{ capture: MicCaptureAdapter; playback: WebAudioPlayback } | null>(null);
+    if (!adaptersRef.current) {
+        adaptersRef.current = {
+            capture: new MicCaptureAdapter(micDeviceId, () => onMicPermissionRef.current?.()),
+            playback: new WebAudioPlayback(outputDeviceId),
+        };
+    }
+    const { capture, playback } = adaptersRef.current;
+
+    const sessionRef = useRef<LiveSession | null>(null);
+    if (!sessionRef.current) sessionRef.current = new LiveSession({ capture, playback, platform: "web" });
+    const session = sessionRef.current;
+    session.configure(config);
+
+    const state = useSyncExternalStore(session.subscribe, session.getState, session.getState);
+    const [diagnostics, setDiagnostics] = useState<DiagnosticsSnapshot | null>(null);
+
+    const fileCapture = useMemo(
+        () => (inputFile ? createFileCapture(inputFile, { speed: fileSpeed, playLocally: playFileLocally }) : null),
+        [inputFile, fileSpeed, playFileLocally]
+    );
+
+    useEffect(() => {
+        session.setCapture(fileCapture ?? capture);
+    }, [session, capture, fileCapture]);
+
+    useEffect(() => {
+        capture.switchDevice(micDeviceId).catch(e => console.error("Error switching microphone:", e));
+    }, [capture, micDeviceId]);
+
+    useEffect(() => {
+        playback.setOutputDevice(outputDeviceId);
+    }, [playback, outputDeviceId]);
+
+    useEffect(() => {
+        if (!diagnosticsEnabled) return;
+        const update = () => setDiagnostics(session.diagnosticsSnapshot());
+        update();
+        const interval = setInterval(update, DIAGNOSTICS_UPDATE_MS);
+        return () => clearInterval(interval);
+    }, [session, diagnosticsEnabled]);
+
+    useEffect(() => {
+        return () => {
+            session.dispose();
+        };
+    }, [session]);
+
+    return {
+        ...state,
+        diagnostics,
+        connect: session.connect,
+        disconnect: session.disconnect,
+        startTalking: session.startTalking,
+        stopTalking: session.stopTalking,
+        askCoach: session.askCoach,
+        sendTextMessage: session.sendTextMessage,
+        exportDiagnostics: session.exportDiagnostics,
+    };
+}
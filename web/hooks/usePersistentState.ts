@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const STORAGE_PREFIX = "gemini-live:";
+
+/**
+ * `useState` backed by localStorage. The stored value is read after mount so
+ * the first render matches the server-rendered HTML.
+ */
+export function usePersistentState<T>(key: string, initialValue: T) {
+    const [value, setValue] = useState<T>(initialValue);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const valueRef = useRef(value);
+
+    useEffect(() => {
+        try {
+            const stored = window.localStorage.getItem(STORAGE_PREFIX + key);
+            if (stored !== null) {
+                valueRef.current = JSON.parse(stored);
+                setValue(valueRef.current);
+            }
+        } catch (e) {
+            console.warn(`Error reading ${key} from storage:`, e);
+        }
+        setIsLoaded(true);
+    }, [key]);
+
+    // Writes synchronously so another component reading the same key right after sees the update
+    const update = useCallback((next: T | ((prev: T) => T)) => {
+        const resolved = typeof next === "function" ? (next as (prev: T) => T)(valueRef.current) : next;
+        valueRef.current = resolved;
+        try {
+            window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(resolved));
+        } catch (e) {
+            console.warn(`Error writing ${key} to storage:`, e);
+        }
+        setValue(resolved);
+    }, [key]);
+
+    return [value, update, isLoaded] as const;
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { BUILT_IN_SCENARIOS, createScenario, type Scenario } from "@shared/scenarios";
+import { usePersistentState } from "./usePersistentState";
+
+/** Built-in plus user-authored scenarios, and the one selected for the next session. */
+export function useScenarios() {
+    const [customScenarios, setCustomScenarios] = usePersistentState<Scenario[]>("scenarios", []);
+    const [selectedId, setSelectedId] = usePersistentState<string | null>("selected-scenario", null);
+
+    const scenarios = useMemo(() => [...BUILT_IN_SCENARIOS, ...customScenarios], [customScenarios]);
+    const selected = scenarios.find(s => s.id === selectedId) ?? null;
+
+    const addScenario = useCallback((fields: Omit<Scenario, "id" | "builtIn">) => {
+        const scenario = createScenario(fields);
+        setCustomScenarios(prev => [...prev, scenario]);
+        setSelectedId(scenario.id);
+    }, [setCustomScenarios, setSelectedId]);
+
+    const removeScenario = useCallback((id: string) => {
+        setCustomScenarios(prev => prev.filter(s => s.id !== id));
+        setSelectedId(prev => (prev === id ? null : prev));
+    }, [setCustomScenarios, setSelectedId]);
+
+    return { scenarios, selected, select: setSelectedId, addScenario, removeScenario };
+}
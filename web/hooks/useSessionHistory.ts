@@ -0,0 +1,97 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MAX_SESSIONS, type AudioChunkRecord, type SessionRecord } from "@shared/sessions";
+
+const DB_NAME = "gemini-live";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const AUDIO_STORE = "audio"; // keyed by session id, kept apart so listing sessions stays cheap
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+            }
+            if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                db.createObjectStore(AUDIO_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await promisify(run(db.transaction(name, mode).objectStore(name)));
+    } finally {
+        db.close();
+    }
+}
+
+export function loadSessionAudio(id: string): Promise<AudioChunkRecord[] | undefined> {
+    return withStore<AudioChunkRecord[] | undefined>(AUDIO_STORE, "readonly", store => store.get(id));
+}
+
+/** Past sessions from IndexedDB, newest first. */
+export function useSessionHistory() {
+    const [sessions, setSessions] = useState<SessionRecord[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            const all = await withStore<SessionRecord[]>(SESSIONS_STORE, "readonly", store => store.getAll());
+            setSessions(all.sort((a, b) => b.startedAt - a.startedAt));
+        } catch (e) {
+            console.warn("Error loading session history:", e);
+        }
+        setIsLoaded(true);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const removeSession = useCallback(async (id: string) => {
+        try {
+            await withStore(SESSIONS_STORE, "readwrite", store => store.delete(id));
+            await withStore(AUDIO_STORE, "readwrite", store => store.delete(id));
+        } catch (e) {
+            console.warn("Error deleting session:", e);
+        }
+        await refresh();
+    }, [refresh]);
+
+    const saveSession = useCallback(async (session: SessionRecord, audio: AudioChunkRecord[]) => {
+        try {
+            await withStore(SESSIONS_STORE, "readwrite", store => store.put(session));
+            if (audio.length > 0) {
+                await withStore(AUDIO_STORE, "readwrite", store => store.put(audio, session.id));
+            }
+
+            const all = await withStore<SessionRecord[]>(SESSIONS_STORE, "readonly", store => store.getAll());
+            const expired = all.sort((a, b) => b.startedAt - a.startedAt).slice(MAX_SESSIONS);
+            for (const old of expired) {
+                await withStore(SESSIONS_STORE, "readwrite", store => store.delete(old.id));
+                await withStore(AUDIO_STORE, "readwrite", store => store.delete(old.id));
+            }
+        } catch (e) {
+            console.warn("Error saving session:", e);
+        }
+        await refresh();
+    }, [refresh]);
+
+    return { sessions, isLoaded, saveSession, removeSession };
+}
@@ -0,0 +1,14 @@
+import nextJest from "next/jest.js";
+
+const createJestConfig = nextJest({ dir: "./" });
+
+/** @type {import('jest').Config} */
+const config = {
+    // The audio modules are tested against fakes; component tests opt into jsdom per file
+    testEnvironment: "node",
+    moduleNameMapper: {
+        "^@shared/(.*)$": "<rootDir>/../shared/$1",
+    },
+};
+
+export default createJestConfig(config);
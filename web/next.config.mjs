@@ -0,0 +1,9 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+    experimental: {
+        // Allow importing the protocol module shared with the Expo client (../shared)
+        externalDir: true,
+    },
+};
+
+export default nextConfig;
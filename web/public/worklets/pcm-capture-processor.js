@@ -0,0 +1,108 @@
+/**
+ * AudioWorklet that turns microphone input at the context's native rate into
+ * 16 kHz mono PCM16 chunks. Runs on the audio rendering thread; each finished
+ * chunk is transferred to the main thread as an ArrayBuffer.
+ *
+ * processorOptions: { targetSampleRate = 16000, chunkMs = 100 }
+ *
+ * Worklets can't import modules, so the anti-aliasing low-pass, resampling
+ * and PCM16 scaling mirror `LinearResampler` (shared/resample.ts) and
+ * `float32ToPcm16` (shared/pcm.ts); web/__tests__/captureWorklet.test.ts
+ * checks they stay in agreement.
+ */
+
+// Low-pass cutoff as a fraction of the target rate, and the Q of the two
+// biquad sections of a 4th-order Butterworth, as in shared/resample.ts
+const ANTI_ALIAS_CUTOFF = 0.45;
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, chunkMs = 100 } = options.processorOptions || {};
+
+    // `sampleRate` is the AudioWorkletGlobalScope's native context rate
+    this.ratio = sampleRate / targetSampleRate;
+    // Only downsampling can alias
+    this.filters = sampleRate > targetSampleRate
+      ? BUTTERWORTH_Q.map(q => new LowPassBiquad(ANTI_ALIAS_CUTOFF * targetSampleRate, sampleRate, q))
+      : [];
+    this.chunk = new Int16Array(Math.round((targetSampleRate * chunkMs) / 1000));
+    this.chunkLength = 0;
+
+    // Fractional read position into the current input block, carried across blocks
+    this.position = 0;
+    this.lastSample = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    const input = this.filters.reduce((block, filter) => filter.process(block), mixToMono(channels));
+
+    // Linear interpolation between input frames; index -1 is the previous block's last sample
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index === 0 ? this.lastSample : input[index - 1];
+      const b = input[index];
+      this.push(a + (b - a) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+
+    return true;
+  }
+
+  push(sample) {
+    this.chunk[this.chunkLength++] = Math.max(-32768, Math.min(32767, Math.round(sample * 32768)));
+    if (this.chunkLength === this.chunk.length) {
+      const buffer = this.chunk.buffer.slice(0);
+      this.port.postMessage(buffer, [buffer]);
+      this.chunkLength = 0;
+    }
+  }
+}
+
+/** Low-pass biquad section (RBJ Audio EQ Cookbook); its state carries across blocks. */
+class LowPassBiquad {
+  constructor(cutoff, rate, q) {
+    const w0 = (2 * Math.PI * cutoff) / rate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+
+  process(input) {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1;
+      this.x1 = x;
+      this.y2 = this.y1;
+      this.y1 = y;
+      output[i] = y;
+    }
+    return output;
+  }
+}
+
+function mixToMono(channels) {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);